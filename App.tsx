@@ -1,156 +1,426 @@
 
-import React, { useState } from 'react';
-import { QRState, RiskLevel, AnalysisResult } from './types';
+import React, { useEffect, useRef, useState } from 'react';
+import { QRState, RiskLevel, AnalysisResult, AnalyzerSettings, OrgPolicy, BatchItem, ChatMessage, CodeResult, DetectedCode, HistoryEntry, ScanSource } from './types';
 import Scanner from './components/Scanner';
 import RiskGauge from './components/RiskGauge';
 import ProbabilityBreakdown from './components/ProbabilityBreakdown';
 import Layout from './components/Layout';
-import { GoogleGenAI, Type } from "@google/genai";
-// Added missing jsQR import to resolve compilation error on line 137
-import jsQR from 'jsqr';
+import PayloadDetails from './components/PayloadDetails';
+import IndicatorList from './components/IndicatorList';
+import HighlightedPayload from './components/HighlightedPayload';
+import CodeOverlay from './components/CodeOverlay';
+import HistoryView from './components/HistoryView';
+import BatchView from './components/BatchView';
+import SettingsPanel from './components/SettingsPanel';
+import ProviderVerdicts from './components/ProviderVerdicts';
+import RedirectChain from './components/RedirectChain';
+import PolicyEditor from './components/PolicyEditor';
+import PolicyMatches from './components/PolicyMatches';
+import HostInspector from './components/HostInspector';
+import IntelFeedsView from './components/IntelFeedsView';
+import SourcesPanel from './components/SourcesPanel';
+import Chatbot from './components/Chatbot';
+import SafePreview from './components/SafePreview';
+import QrStructurePanel from './components/QrStructurePanel';
+import PayloadInput from './components/PayloadInput';
+import { emailContextIndicators, getRegistrableDomain, parseUrl, withIndicators } from './services/heuristicsService';
+import { inspectHost } from './services/idnService';
+import { parsePayload } from './services/payloadParser';
+import { deepScan } from './services/deepScanService';
+import { findStickerConflicts } from './services/multiCodeService';
+import { inspectQrStructure, structureIndicators } from './services/qrForensicsService';
+import { BatchJob, createBatchItem, enqueueBatch, readFileAsDataUrl, readImageFile } from './services/batchService';
+import { UPLOAD_ACCEPT, extractDocumentImages, isEmailFile, isPdfFile } from './services/documentService';
+import { createThumbnail, findLatestScan, saveChat, saveScan, updateScan } from './services/historyService';
+import { ReportInput, exportCsv, exportJson, printReport } from './services/exportService';
+import { runAnalyzers } from './services/analyzerService';
+import { resolveRedirectChain } from './services/redirectService';
+import { applyPolicy, brandDirectory, evaluatePolicy, loadPolicy, savePolicy, trustedResult } from './services/policyService';
+import { applyPreview, fetchPreview } from './services/previewService';
+import { SHARE_TARGET_PARAM, SharedItems, clipboardItems, payloadFromText, takeSharedItems } from './services/shareIntakeService';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { intelFindings, lookupThreatIntel } from './services/threatIntelService';
+
+// Identifies the result on screen, so async work started on one result never lands on another.
+const resultKey = (state: Pick<QRState, 'scannedAt' | 'batchItemId'>) => (state.batchItemId ? `batch-${state.batchItemId}` : `scan-${state.scannedAt}`);
 
 const App: React.FC = () => {
   const [state, setState] = useState<QRState>({
     view: 'home',
+    source: null,
+    scannedAt: null,
+    batchItemId: null,
     decodedContent: null,
     base64Image: null,
+    recoveredBy: null,
+    codes: [],
+    activeCode: 0,
     analysis: null,
     loading: false,
     error: null,
   });
+  const [deepScanStep, setDeepScanStep] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // Keyed to one code of one scan so a late failure never lands on another result.
+  const [previewStatus, setPreviewStatus] = useState<{ key: string; loading: boolean; error: string | null } | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [settings, setSettings] = useState<AnalyzerSettings>(loadSettings);
+  const [policy, setPolicy] = useState<OrgPolicy>(loadPolicy);
 
   const resetState = () => {
     setState({
       view: 'home',
+      source: null,
+      scannedAt: null,
+      batchItemId: null,
       decodedContent: null,
       base64Image: null,
+      recoveredBy: null,
+      codes: [],
+      activeCode: 0,
       analysis: null,
       loading: false,
       error: null,
     });
   };
 
-  const analyzeWithGemini = async (content: string): Promise<AnalysisResult> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Perform a deep security forensic analysis on the following QR code payload: "${content}". 
-      Check for: Phishing, typosquatting (brand spoofing), suspicious TLDs, redirectors, malicious scripts, and insecure protocols.`,
-      config: {
-        systemInstruction: "You are a world-class cybersecurity forensic expert specializing in 'Quishing' (QR Phishing) detection. Analyze payloads for hidden threats. Return strictly valid JSON matching the requested schema.",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            riskScore: {
-              type: Type.NUMBER,
-              description: "A score from 0 to 100 indicating the threat level."
-            },
-            riskLevel: {
-              type: Type.STRING,
-              description: "Must be one of: LOW, MODERATE, SUSPICIOUS, HIGH, CRITICAL."
-            },
-            explanation: {
-              type: Type.STRING,
-              description: "A concise forensic explanation of the findings."
-            },
-            recommendations: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-              description: "3 actionable security recommendations."
-            },
-            probabilities: {
-              type: Type.OBJECT,
-              properties: {
-                malicious: { type: Type.NUMBER },
-                fake: { type: Type.NUMBER },
-                authentic: { type: Type.NUMBER }
-              },
-              required: ["malicious", "fake", "authentic"]
-            }
-          },
-          required: ["riskScore", "riskLevel", "explanation", "recommendations", "probabilities"]
-        }
-      }
-    });
+  const analyze = (content: string): Promise<AnalysisResult> => runAnalyzers(settings, content);
+
+  const updateSettings = (next: AnalyzerSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const updatePolicy = (next: OrgPolicy) => {
+    setPolicy(next);
+    savePolicy(next);
+  };
 
+  // History is best-effort: a storage failure must never hide a verdict.
+  const recordHistory = async (results: CodeResult[], source: ScanSource, base64: string | null): Promise<CodeResult[]> => {
     try {
-      const data = JSON.parse(response.text || "{}");
-      return {
-        ...data,
-        originalContent: content,
-        riskLevel: data.riskLevel as RiskLevel
-      };
-    } catch (e) {
-      throw new Error("Neural output parsing failed. The payload may be malformed.");
+      const thumbnail = base64 ? await createThumbnail(base64) : null;
+      const recorded: CodeResult[] = [];
+      for (const result of results) {
+        const previous = await findLatestScan(result.code.data);
+        const entry = await saveScan(result.analysis, source, thumbnail);
+        recorded.push({ ...result, historyId: entry.id, ...(previous ? { previous } : {}) });
+      }
+      return recorded;
+    } catch (err) {
+      console.warn('Scan history unavailable.', err);
+      return results;
+    }
+  };
+
+  const analyzeCodes = async (detected: DetectedCode[], base64: string | null, source: ScanSource): Promise<CodeResult[]> => {
+    const conflicts = findStickerConflicts(detected);
+    const analyzed: CodeResult[] = [];
+    for (let i = 0; i < detected.length; i++) {
+      const redirects = await resolveRedirectChain(detected[i].data, settings.redirects);
+      const evaluation = evaluatePolicy(detected[i].data, policy, redirects.chain.map(hop => hop.url));
+      const result = evaluation.trusted ? trustedResult(detected[i].data, evaluation) : await analyze(detected[i].data);
+      const context = emailContextIndicators(detected[i].origin?.email, detected[i].data);
+      // Feed lookups are best effort; a broken intel store must not block the verdict.
+      const intel = intelFindings(await lookupThreatIntel(detected[i].data).catch(() => []));
+      const structure = detected[i].structure;
+      const forensics = structure ? structureIndicators(structure, detected[i].data) : [];
+      const analysis = applyPolicy(withIndicators(result, [...context, ...redirects.indicators]), evaluation, [...conflicts[i], ...intel.indicators, ...forensics]);
+      const groundingSources = [...(analysis.groundingSources || []), ...intel.sources];
+      analyzed.push({
+        code: detected[i],
+        analysis: {
+          ...analysis,
+          ...(groundingSources.length ? { groundingSources } : {}),
+          ...(redirects.chain.length ? { redirectChain: redirects.chain } : {}),
+          ...(structure ? { qrStructure: structure } : {}),
+        },
+      });
     }
+    return recordHistory(analyzed, source, base64);
   };
 
-  const runAnalysis = async (content: string | null, base64: string | null) => {
-    if (!content && !base64) {
+  const runAnalysis = async (codes: DetectedCode[], base64: string | null, source: ScanSource) => {
+    if (codes.length === 0 && !base64) {
       setState(prev => ({ ...prev, error: "No data captured.", view: 'result' }));
       return;
     }
 
+    // Analysis can take a while; its results only land if this scan is still on screen.
+    const scannedAt = Date.now();
+    const key = resultKey({ scannedAt, batchItemId: null });
+    const update = (patch: Partial<QRState>) => setState(prev => (resultKey(prev) !== key ? prev : { ...prev, ...patch }));
+
     setState(prev => ({ 
       ...prev, 
       loading: true, 
       view: 'result', 
-      decodedContent: content, 
+      source,
+      scannedAt,
+      batchItemId: null,
+      decodedContent: codes[0]?.data ?? null, 
       base64Image: base64, 
+      recoveredBy: null,
+      codes: [],
+      activeCode: 0,
+      analysis: null,
       error: null 
     }));
 
     try {
-      // If we only have an image (deep scan), we rely on Gemini to see it or the scanner to have already decoded it
-      // For this implementation, we assume the scanner decodes the content string
-      if (content) {
-        const result = await analyzeWithGemini(content);
-        setState(prev => ({ ...prev, analysis: result, loading: false }));
-      } else {
-        setState(prev => ({ ...prev, loading: false, error: "Decoder failed to extract text from the image." }));
+      let detected = codes;
+      if (detected.length === 0 && base64) {
+        const recovered = await deepScan(base64, (step, attempt, total) => setDeepScanStep(`${step} (${attempt}/${total})`));
+        setDeepScanStep(null);
+        if (!recovered) {
+          update({ loading: false, error: "Deep scan exhausted every image transformation without locating a QR code." });
+          return;
+        }
+        detected = [{ data: recovered.code.data, structure: inspectQrStructure(recovered.code) }];
+        update({ decodedContent: recovered.code.data, recoveredBy: recovered.transform });
       }
+
+      const results = await analyzeCodes(detected, base64, source);
+      // Open on the most dangerous code; that is the one the user most needs to see.
+      const active = results.reduce((best, r, i) => (r.analysis.riskScore > results[best].analysis.riskScore ? i : best), 0);
+      update({
+        codes: results,
+        activeCode: active,
+        decodedContent: results[active].code.data,
+        analysis: results[active].analysis,
+        loading: false
+      });
     } catch (err: any) {
-      setState(prev => ({ 
-        ...prev, 
+      update({ 
         loading: false, 
         error: err.message || "An unexpected error occurred during AI analysis." 
+      });
+      setDeepScanStep(null);
+    }
+  };
+
+  const selectCode = (index: number) => {
+    setState(prev => ({
+      ...prev,
+      activeCode: index,
+      decodedContent: prev.codes[index].code.data,
+      analysis: prev.codes[index].analysis
+    }));
+  };
+
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    setState({
+      view: 'result',
+      source: entry.source,
+      scannedAt: entry.timestamp,
+      batchItemId: null,
+      decodedContent: entry.content,
+      base64Image: null,
+      recoveredBy: null,
+      codes: [{ code: { data: entry.content }, analysis: entry.analysis, historyId: entry.id, chat: entry.chat }],
+      activeCode: 0,
+      analysis: entry.analysis,
+      loading: false,
+      error: null,
+    });
+  };
+
+  // Keeps a batch row in step with changes made to one of its results while it is open.
+  const updateBatchResult = (batchItemId: string, index: number, patch: Partial<CodeResult>) => {
+    setBatchItems(prev => prev.map(item => (item.id !== batchItemId ? item : {
+      ...item,
+      results: item.results.map((c, i) => (i === index ? { ...c, ...patch } : c)),
+    })));
+  };
+
+  // Replies arrive asynchronously; one for a scan the user has since left still goes to that
+  // scan's history entry and batch row, but never into whichever result is on screen now.
+  const updateChat = (key: string, batchItemId: string | null, index: number, chat: ChatMessage[]) => {
+    const historyId = state.codes[index]?.historyId;
+    setState(prev => resultKey(prev) !== key ? prev : {
+      ...prev,
+      codes: prev.codes.map((c, i) => (i === index ? { ...c, chat } : c)),
+    });
+    if (batchItemId) updateBatchResult(batchItemId, index, { chat });
+    if (historyId) saveChat(historyId, chat).catch(err => console.warn('Chat could not be saved to history.', err));
+  };
+
+  const activeResult: CodeResult | undefined = state.codes[state.activeCode];
+
+  const reportInput: ReportInput | null = state.analysis && state.decodedContent ? {
+    timestamp: state.scannedAt ?? Date.now(),
+    source: state.source,
+    content: state.decodedContent,
+    image: state.base64Image,
+    recoveredBy: state.recoveredBy,
+    analysis: state.analysis,
+  } : null;
+
+  const handlePrint = () => {
+    if (!reportInput) return;
+    try {
+      setExportError(null);
+      printReport(reportInput);
+    } catch (err: any) {
+      setExportError(err.message);
+    }
+  };
+
+  const parsedPayload = state.decodedContent ? parsePayload(state.decodedContent) : null;
+  const payloadUrl = parsedPayload?.type === 'url' ? parseUrl(parsedPayload.url) : null;
+  const hostInspection = payloadUrl?.hostname
+    ? inspectHost(payloadUrl.hostname, brandDirectory(policy), getRegistrableDomain(payloadUrl.hostname))
+    : null;
+
+  const previewKey = `${resultKey(state)}-${state.activeCode}`;
+  const activePreviewStatus = previewStatus?.key === previewKey ? previewStatus : null;
+
+  const runPreview = async () => {
+    const { analysis, activeCode: index, batchItemId } = state;
+    if (!analysis || !payloadUrl) return;
+    const key = resultKey(state);
+    const historyId = state.codes[index]?.historyId;
+    setPreviewStatus({ key: previewKey, loading: true, error: null });
+    try {
+      const preview = await fetchPreview(payloadUrl.href, { proxyUrl: settings.preview.proxyUrl, maxHops: settings.redirects.maxHops }, brandDirectory(policy));
+      const updated = applyPreview(analysis, preview);
+      setState(prev => resultKey(prev) !== key ? prev : {
+        ...prev,
+        analysis: prev.activeCode === index ? updated : prev.analysis,
+        codes: prev.codes.map((c, i) => (i === index ? { ...c, analysis: updated } : c)),
+      });
+      setPreviewStatus(null);
+      if (batchItemId) updateBatchResult(batchItemId, index, { analysis: updated });
+      if (historyId) updateScan(historyId, { analysis: updated }).catch(err => console.warn('Preview could not be saved to history.', err));
+    } catch (err: any) {
+      setPreviewStatus({ key: previewKey, loading: false, error: err.message || 'The page could not be previewed.' });
+    }
+  };
+
+  const updateBatchItem = (id: string, patch: Partial<BatchItem>) => {
+    setBatchItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const queueJobs = (jobs: BatchJob[]) => {
+    enqueueBatch(jobs, (codes, base64) => analyzeCodes(codes, base64, 'upload'), updateBatchItem);
+  };
+
+  // PDFs and emails are expanded into one batch row per page / attachment before decoding.
+  const expandDocument = async (file: File) => {
+    const placeholder = { ...createBatchItem(file.name), status: 'extracting' as const };
+    setBatchItems(prev => [...prev, placeholder]);
+    try {
+      const extracted = await extractDocumentImages(file);
+      if (extracted.length === 0) {
+        updateBatchItem(placeholder.id, { status: 'no-code', error: undefined });
+        return;
+      }
+      const jobs = extracted.map(image => ({
+        item: createBatchItem(file.name, { label: image.label, email: image.email }),
+        load: async () => image.base64,
       }));
+      setBatchItems(prev => prev.flatMap(item => (item.id === placeholder.id ? jobs.map(j => j.item) : [item])));
+      queueJobs(jobs);
+    } catch (err: any) {
+      updateBatchItem(placeholder.id, { status: 'error', error: err.message || 'The document could not be read.' });
     }
   };
 
+  const startBatch = (files: File[]) => {
+    setState(prev => ({ ...prev, view: 'batch' }));
+    const jobs = files
+      .filter(file => file.type.startsWith('image/'))
+      .map(file => ({ item: createBatchItem(file.name), load: () => readFileAsDataUrl(file) }));
+    setBatchItems(prev => [...prev, ...jobs.map(j => j.item)]);
+    queueJobs(jobs);
+    files.filter(file => isPdfFile(file) || isEmailFile(file)).forEach(expandDocument);
+  };
+
+  const openBatchResult = (item: BatchItem, codeIndex: number) => {
+    setState({
+      view: 'result',
+      source: 'upload',
+      scannedAt: null,
+      batchItemId: item.id,
+      decodedContent: item.results[codeIndex].code.data,
+      base64Image: item.base64,
+      recoveredBy: null,
+      codes: item.results,
+      activeCode: codeIndex,
+      analysis: item.results[codeIndex].analysis,
+      loading: false,
+      error: null,
+    });
+  };
+
+  const handleFiles = (files: File[], source: ScanSource = 'upload') => {
+    const images = files.filter(f => f.type.startsWith('image/'));
+    const documents = files.filter(f => isPdfFile(f) || isEmailFile(f));
+    if (images.length + documents.length > 1 || documents.length > 0) {
+      startBatch([...images, ...documents]);
+      return;
+    }
+    if (images.length === 0) return;
+    readImageFile(images[0])
+      .then(({ base64, codes }) => runAnalysis(codes, base64, source))
+      .catch(err => setState(prev => ({ ...prev, view: 'result', error: err.message })));
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const base64 = event.target?.result as string;
-      if (base64) {
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          canvas.width = img.width;
-          canvas.height = img.height;
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-            ctx.drawImage(img, 0, 0);
-            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-            // jsQR is now available via import to decode manually uploaded images
-            const code = jsQR(imageData.data, imageData.width, imageData.height);
-            runAnalysis(code ? code.data : null, base64);
-          }
-        };
-        img.src = base64;
-      }
-    };
-    reader.readAsDataURL(file);
+    handleFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  // Shared or pasted images go through decoding like uploads; a shared link is already the
+  // payload, so it goes straight to analysis.
+  const handleIntake = (items: SharedItems, source: ScanSource) => {
+    if (items.files.length > 0) {
+      handleFiles(items.files, source);
+    } else if (items.text) {
+      runAnalysis([{ data: payloadFromText(items.text) }], null, source);
+    }
   };
 
+  // Listeners are registered once, so they call through a ref to see current settings.
+  const intakeRef = useRef(handleIntake);
+  intakeRef.current = handleIntake;
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (!params.has(SHARE_TARGET_PARAM)) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    takeSharedItems()
+      .then(items => items && intakeRef.current(items, 'share'))
+      .catch(err => console.warn('Shared content could not be read.', err));
+  }, []);
+
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const items = clipboardItems(e.clipboardData);
+      if (!items) return;
+      e.preventDefault();
+      intakeRef.current(items, 'paste');
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, []);
+
   return (
-    <Layout onHomeClick={resetState}>
+    <Layout
+      onHomeClick={resetState}
+      onHistoryClick={() => setState(prev => ({ ...prev, view: 'history' }))}
+      onSettingsClick={() => setState(prev => ({ ...prev, view: 'settings' }))}
+      onPolicyClick={() => setState(prev => ({ ...prev, view: 'policy' }))}
+      onIntelClick={() => setState(prev => ({ ...prev, view: 'intel' }))}
+    >
       {state.view === 'home' && (
-        <div className="space-y-16 py-12 animate-in fade-in duration-1000">
+        <div
+          className="space-y-16 py-12 animate-in fade-in duration-1000"
+          onDragOver={e => e.preventDefault()}
+          onDrop={e => { e.preventDefault(); handleFiles(Array.from(e.dataTransfer.files)); }}
+        >
           <div className="text-center space-y-8">
             <div className="flex justify-center mb-4">
                <div className="bg-blue-500/10 border border-blue-500/20 px-5 py-2 rounded-full flex items-center space-x-2">
@@ -178,15 +448,20 @@ const App: React.FC = () => {
               </button>
               
               <div className="relative group inline-block">
-                <input type="file" accept="image/*" onChange={handleFileUpload} className="absolute inset-0 opacity-0 cursor-pointer z-10" />
+                <input type="file" accept={UPLOAD_ACCEPT} multiple onChange={handleFileUpload} className="absolute inset-0 opacity-0 cursor-pointer z-10" />
                 <button className="px-14 py-7 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-[2.5rem] font-black uppercase tracking-widest transition-all border border-slate-700 flex items-center justify-center space-x-4">
                   <i className="fas fa-cloud-upload-alt text-2xl"></i>
                   <span>Upload Asset</span>
                 </button>
               </div>
             </div>
+            <p className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-600">
+              Or paste a screenshot or link with <kbd className="px-2 py-1 bg-slate-800 border border-slate-700 rounded-md text-slate-400">Ctrl+V</kbd>
+            </p>
           </div>
 
+          <PayloadInput onSubmit={payloads => runAnalysis(payloads.map(data => ({ data })), null, 'manual')} />
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-10 max-w-5xl mx-auto">
             {[
               { icon: 'fa-brain', title: 'Neural Analysis', desc: 'Uses LLM intelligence to spot sophisticated social engineering.' },
@@ -206,7 +481,32 @@ const App: React.FC = () => {
       )}
 
       {state.view === 'scan' && (
-        <Scanner onScan={(content) => runAnalysis(content, null)} onDeepScan={(base64) => runAnalysis(null, base64)} onCancel={resetState} />
+        <Scanner onScan={(codes, base64) => runAnalysis(codes, base64, 'camera')} onDeepScan={(base64) => runAnalysis([], base64, 'camera')} onCancel={resetState} />
+      )}
+
+      {state.view === 'batch' && (
+        <BatchView
+          items={batchItems}
+          onAddFiles={startBatch}
+          onOpen={openBatchResult}
+          onClear={() => { setBatchItems([]); resetState(); }}
+        />
+      )}
+
+      {state.view === 'history' && (
+        <HistoryView onOpen={openHistoryEntry} />
+      )}
+
+      {state.view === 'settings' && (
+        <SettingsPanel settings={settings} onChange={updateSettings} />
+      )}
+
+      {state.view === 'policy' && (
+        <PolicyEditor policy={policy} onChange={updatePolicy} />
+      )}
+
+      {state.view === 'intel' && (
+        <IntelFeedsView />
       )}
 
       {state.view === 'result' && (
@@ -220,19 +520,43 @@ const App: React.FC = () => {
                 </div>
               </div>
               <div className="text-center space-y-4">
-                <p className="text-4xl font-black text-white italic uppercase tracking-tighter">AI Neural Analysis</p>
-                <p className="text-[10px] text-slate-600 uppercase tracking-[0.5em] font-black">Consulting Global Threat Databases</p>
+                <p className="text-4xl font-black text-white italic uppercase tracking-tighter">{deepScanStep ? 'Deep Scan Recovery' : 'AI Neural Analysis'}</p>
+                <p className="text-[10px] text-slate-600 uppercase tracking-[0.5em] font-black">{deepScanStep || 'Analyzing Payload Against Imported Feeds'}</p>
               </div>
             </div>
           ) : (
             <div className="grid grid-cols-1 lg:grid-cols-12 gap-10">
               <div className="lg:col-span-5 space-y-8">
+                {state.base64Image && state.codes.some(c => c.code.corners) && (
+                  <CodeOverlay image={state.base64Image} codes={state.codes} activeCode={state.activeCode} onSelect={selectCode} />
+                )}
+                {state.codes.length > 1 && (
+                  <div className="flex flex-wrap gap-3">
+                    {state.codes.map((c, i) => (
+                      <button
+                        key={i}
+                        onClick={() => selectCode(i)}
+                        className={`px-4 py-2 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-all ${i === state.activeCode ? 'bg-blue-600 text-white border-blue-500' : 'bg-slate-800/50 text-slate-400 border-slate-700 hover:bg-slate-700'}`}
+                      >
+                        #{i + 1} · {c.analysis.riskLevel}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 {state.analysis && (
                   <>
                     <RiskGauge score={state.analysis.riskScore} level={state.analysis.riskLevel} />
                     <div className="bg-slate-900/40 p-10 rounded-[3rem] border border-slate-800 backdrop-blur-xl shadow-2xl">
                       <ProbabilityBreakdown probabilities={state.analysis.probabilities} />
                     </div>
+                    <div className="bg-slate-900/40 p-10 rounded-[3rem] border border-slate-800 backdrop-blur-xl shadow-2xl">
+                      <IndicatorList indicators={state.analysis.indicators} score={state.analysis.riskScore} />
+                    </div>
+                    {state.analysis.providers && state.analysis.providers.length > 1 && (
+                      <div className="bg-slate-900/40 p-10 rounded-[3rem] border border-slate-800 backdrop-blur-xl shadow-2xl">
+                        <ProviderVerdicts verdicts={state.analysis.providers} />
+                      </div>
+                    )}
                   </>
                 )}
               </div>
@@ -251,19 +575,128 @@ const App: React.FC = () => {
                   </div>
                 ) : state.analysis && (
                   <div className="bg-slate-900/40 p-12 rounded-[4rem] border border-slate-800 space-y-12 shadow-2xl backdrop-blur-xl">
+                    {state.analysis.policyMatches && state.analysis.policyMatches.length > 0 && (
+                      <PolicyMatches matches={state.analysis.policyMatches} />
+                    )}
+                    {activeResult?.previous && (
+                      <div className="flex items-center space-x-4 bg-blue-500/5 border border-blue-500/20 p-6 rounded-[2rem]">
+                        <i className="fas fa-clock-rotate-left text-blue-500 text-xl"></i>
+                        <div className="text-xs font-bold text-slate-300 leading-relaxed">
+                          <p>
+                            Previously scanned {new Date(activeResult.previous.timestamp).toLocaleString()}:{' '}
+                            <span className="font-black">{activeResult.previous.analysis.riskScore} ({activeResult.previous.analysis.riskLevel})</span>
+                          </p>
+                          <p className="text-slate-500">
+                            {activeResult.analysis.riskScore === activeResult.previous.analysis.riskScore
+                              ? 'Score unchanged since the last scan.'
+                              : `Score changed by ${activeResult.analysis.riskScore > activeResult.previous.analysis.riskScore ? '+' : ''}${activeResult.analysis.riskScore - activeResult.previous.analysis.riskScore} to ${activeResult.analysis.riskScore}.`}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                    {parsedPayload && parsedPayload.type !== 'text' && (
+                      <div className="space-y-6">
+                        <h4 className="text-[11px] font-black uppercase tracking-[0.5em] text-slate-600 flex items-center">
+                          <span className="w-16 h-[1px] bg-slate-800 mr-5"></span>
+                          Decoded Payload
+                        </h4>
+                        <div className="bg-slate-950/60 p-8 rounded-[2.5rem] border border-slate-800/80">
+                          <PayloadDetails payload={parsedPayload} />
+                        </div>
+                      </div>
+                    )}
+
+                    {payloadUrl && /^https?:$/.test(payloadUrl.protocol) && (
+                      <div className="space-y-6">
+                        <h4 className="text-[11px] font-black uppercase tracking-[0.5em] text-slate-600 flex items-center">
+                          <span className="w-16 h-[1px] bg-slate-800 mr-5"></span>
+                          Destination Preview
+                        </h4>
+                        <div className="bg-slate-950/60 p-8 rounded-[2.5rem] border border-slate-800/80">
+                          <SafePreview
+                            preview={state.analysis.preview}
+                            loading={!!activePreviewStatus?.loading}
+                            error={activePreviewStatus?.error ?? null}
+                            available={!!settings.preview.proxyUrl}
+                            onRun={runPreview}
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    {state.analysis.redirectChain && (
+                      <div className="space-y-6">
+                        <h4 className="text-[11px] font-black uppercase tracking-[0.5em] text-slate-600 flex items-center">
+                          <span className="w-16 h-[1px] bg-slate-800 mr-5"></span>
+                          Redirect Chain
+                        </h4>
+                        <div className="bg-slate-950/60 p-8 rounded-[2.5rem] border border-slate-800/80">
+                          <RedirectChain hops={state.analysis.redirectChain} />
+                        </div>
+                      </div>
+                    )}
+
+                    {state.analysis.groundingSources && (
+                      <div className="space-y-6">
+                        <h4 className="text-[11px] font-black uppercase tracking-[0.5em] text-slate-600 flex items-center">
+                          <span className="w-16 h-[1px] bg-slate-800 mr-5"></span>
+                          Sources
+                        </h4>
+                        <div className="bg-slate-950/60 p-8 rounded-[2.5rem] border border-slate-800/80">
+                          <SourcesPanel sources={state.analysis.groundingSources} />
+                        </div>
+                      </div>
+                    )}
+
                     <div className="space-y-6">
                       <h4 className="text-[11px] font-black uppercase tracking-[0.5em] text-slate-600 flex items-center">
                         <span className="w-16 h-[1px] bg-slate-800 mr-5"></span>
                         Scanned Bitstream
                       </h4>
+                      {activeResult?.code.origin && (
+                        <div className="bg-slate-950/60 border border-slate-800/80 p-5 rounded-[1.5rem] space-y-1 text-xs">
+                          <p className="font-black uppercase tracking-widest text-[10px] text-slate-500">
+                            <i className="fas fa-file-lines mr-2"></i>Found in {activeResult.code.origin.label}
+                          </p>
+                          {activeResult.code.origin.email && (
+                            <>
+                              <p className="text-slate-300 font-bold break-all"><span className="text-slate-500">From:</span> {activeResult.code.origin.email.from || '—'}</p>
+                              <p className="text-slate-300 font-bold break-all"><span className="text-slate-500">Subject:</span> {activeResult.code.origin.email.subject || '—'}</p>
+                            </>
+                          )}
+                        </div>
+                      )}
+                      {hostInspection && hostInspection.suspicious.length > 0 && (
+                        <HostInspector inspection={hostInspection} />
+                      )}
+                      {state.recoveredBy && (
+                        <div className="inline-flex items-center space-x-2 bg-amber-500/10 border border-amber-500/30 text-amber-400 px-4 py-2 rounded-full">
+                          <i className="fas fa-wand-magic-sparkles text-xs"></i>
+                          <span className="text-[10px] font-black uppercase tracking-widest">Recovered via deep scan: {state.recoveredBy}</span>
+                        </div>
+                      )}
                       <div className="bg-slate-950/80 p-8 rounded-[2.5rem] font-mono text-xs text-blue-400 break-all border border-slate-800/80 shadow-inner group relative">
-                        {state.decodedContent || "N/A"}
+                        {state.decodedContent ? (
+                          <HighlightedPayload content={state.decodedContent} indicators={state.analysis.indicators} />
+                        ) : "N/A"}
                         <button onClick={() => navigator.clipboard.writeText(state.decodedContent || '')} className="absolute top-4 right-4 text-slate-700 hover:text-blue-500 transition-colors">
                           <i className="fas fa-copy text-sm"></i>
                         </button>
                       </div>
                     </div>
 
+                    {state.analysis.qrStructure && (
+                      <div className="space-y-6">
+                        <h4 className="text-[11px] font-black uppercase tracking-[0.5em] text-slate-600 flex items-center">
+                          <span className="w-16 h-[1px] bg-slate-800 mr-5"></span>
+                          Code Structure
+                        </h4>
+                        <div className="bg-slate-950/60 p-8 rounded-[2.5rem] border border-slate-800/80">
+                          <QrStructurePanel structure={state.analysis.qrStructure} />
+                        </div>
+                      </div>
+                    )}
+
                     <div className="space-y-6">
                       <h4 className="text-[11px] font-black uppercase tracking-[0.5em] text-slate-600 flex items-center">
                         <span className="w-16 h-[1px] bg-slate-800 mr-5"></span>
@@ -291,7 +724,48 @@ const App: React.FC = () => {
                       </div>
                     </div>
 
-                    <div className="pt-10 border-t border-slate-800">
+                    <div className="space-y-6">
+                      <h4 className="text-[11px] font-black uppercase tracking-[0.5em] text-slate-600 flex items-center">
+                        <span className="w-16 h-[1px] bg-slate-800 mr-5"></span>
+                        Ask the Analyst
+                      </h4>
+                      <Chatbot
+                        key={`${resultKey(state)}-${state.activeCode}`}
+                        analysis={state.analysis}
+                        settings={settings}
+                        messages={activeResult?.chat || []}
+                        onChange={chat => updateChat(resultKey(state), state.batchItemId, state.activeCode, chat)}
+                      />
+                    </div>
+
+                    {reportInput && (
+                      <div className="space-y-6">
+                        <h4 className="text-[11px] font-black uppercase tracking-[0.5em] text-slate-600 flex items-center">
+                          <span className="w-16 h-[1px] bg-slate-800 mr-5"></span>
+                          Export Report
+                        </h4>
+                        <div className="grid grid-cols-3 gap-4">
+                          {[
+                            { icon: 'fa-file-code', label: 'JSON', action: () => exportJson([reportInput]) },
+                            { icon: 'fa-file-csv', label: 'CSV', action: () => exportCsv([reportInput]) },
+                            { icon: 'fa-print', label: 'Print / PDF', action: handlePrint },
+                          ].map(opt => (
+                            <button key={opt.label} onClick={opt.action} className="py-4 bg-slate-800/50 hover:bg-slate-700 text-slate-300 rounded-2xl font-black uppercase tracking-widest text-[10px] transition-all border border-slate-700 flex items-center justify-center space-x-2">
+                              <i className={`fas ${opt.icon}`}></i>
+                              <span>{opt.label}</span>
+                            </button>
+                          ))}
+                        </div>
+                        {exportError && <p className="text-rose-400 font-mono text-xs">{exportError}</p>}
+                      </div>
+                    )}
+
+                    <div className="pt-10 border-t border-slate-800 space-y-4">
+                       {batchItems.length > 0 && (
+                         <button onClick={() => setState(prev => ({ ...prev, view: 'batch' }))} className="w-full py-5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-[2.5rem] font-black uppercase tracking-[0.3em] text-xs transition-all border border-slate-700">
+                           Back to Batch Results
+                         </button>
+                       )}
                        <button onClick={resetState} className="w-full py-7 bg-blue-600 hover:bg-blue-500 text-white rounded-[2.5rem] font-black uppercase tracking-[0.3em] text-xs transition-all shadow-2xl shadow-blue-600/30 active:scale-95">
                          Scan Another Code
                        </button>
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { BatchItem, BatchStatus, RiskLevel } from '../types';
+import { UPLOAD_ACCEPT } from '../services/documentService';
+
+interface BatchViewProps {
+  items: BatchItem[];
+  onAddFiles: (files: File[]) => void;
+  onOpen: (item: BatchItem, codeIndex: number) => void;
+  onClear: () => void;
+}
+
+type SortKey = 'file' | 'payload' | 'riskScore' | 'riskLevel';
+
+interface Row {
+  item: BatchItem;
+  codeIndex: number;
+  payload: string | null;
+  riskScore: number | null;
+  riskLevel: RiskLevel | null;
+}
+
+const LEVEL_ORDER = Object.values(RiskLevel);
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  extracting: 'Extracting',
+  queued: 'Queued',
+  decoding: 'Decoding',
+  analyzing: 'Analyzing',
+  done: 'Done',
+  'no-code': 'No QR found',
+  error: 'Failed',
+};
+
+const LEVEL_TEXT: Record<RiskLevel, string> = {
+  [RiskLevel.LOW]: 'text-emerald-400',
+  [RiskLevel.MODERATE]: 'text-cyan-400',
+  [RiskLevel.SUSPICIOUS]: 'text-amber-400',
+  [RiskLevel.HIGH]: 'text-orange-500',
+  [RiskLevel.CRITICAL]: 'text-rose-500',
+};
+
+const toRows = (items: BatchItem[]): Row[] =>
+  items.flatMap(item =>
+    item.results.length > 0
+      ? item.results.map((r, codeIndex) => ({
+          item,
+          codeIndex,
+          payload: r.code.data,
+          riskScore: r.analysis.riskScore,
+          riskLevel: r.analysis.riskLevel,
+        }))
+      : [{ item, codeIndex: -1, payload: null, riskScore: null, riskLevel: null }]
+  );
+
+const compareRows = (a: Row, b: Row, key: SortKey): number => {
+  switch (key) {
+    case 'file':
+      return a.item.fileName.localeCompare(b.item.fileName);
+    case 'payload':
+      return (a.payload || '').localeCompare(b.payload || '');
+    case 'riskScore':
+      return (a.riskScore ?? -1) - (b.riskScore ?? -1);
+    case 'riskLevel':
+      return (a.riskLevel ? LEVEL_ORDER.indexOf(a.riskLevel) : -1) - (b.riskLevel ? LEVEL_ORDER.indexOf(b.riskLevel) : -1);
+  }
+};
+
+const BatchView: React.FC<BatchViewProps> = ({ items, onAddFiles, onOpen, onClear }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('riskScore');
+  const [descending, setDescending] = useState(true);
+  const [dragging, setDragging] = useState(false);
+
+  const finished = items.filter(i => ['done', 'no-code', 'error'].includes(i.status)).length;
+  const progress = items.length ? Math.round((finished / items.length) * 100) : 0;
+  const rows = toRows(items).sort((a, b) => (descending ? -1 : 1) * compareRows(a, b, sortKey));
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) setDescending(prev => !prev);
+    else {
+      setSortKey(key);
+      setDescending(key === 'riskScore' || key === 'riskLevel');
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length) onAddFiles(files);
+  };
+
+  const columns: Array<[SortKey, string]> = [['file', 'File'], ['payload', 'Payload'], ['riskScore', 'Score'], ['riskLevel', 'Level']];
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8 animate-in fade-in duration-700 pb-20">
+      <div className="flex items-end justify-between">
+        <h2 className="text-5xl font-black text-white italic uppercase tracking-tighter">Batch <span className="text-blue-600">Analysis</span></h2>
+        <button onClick={onClear} className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 hover:text-rose-400 transition-colors">
+          Clear Batch
+        </button>
+      </div>
+
+      <label
+        onDragOver={e => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`block border-2 border-dashed rounded-[2rem] p-8 text-center cursor-pointer transition-colors ${dragging ? 'border-blue-500 bg-blue-500/5' : 'border-slate-800 hover:border-slate-700'}`}
+      >
+        <input
+          type="file"
+          accept={UPLOAD_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={e => { if (e.target.files?.length) onAddFiles(Array.from(e.target.files)); e.target.value = ''; }}
+        />
+        <i className="fas fa-images text-2xl text-slate-600 mb-3"></i>
+        <p className="text-xs font-black uppercase tracking-widest text-slate-400">Drop more screenshots, PDFs or emails, or click to add</p>
+      </label>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-[10px] font-black uppercase tracking-[0.3em] text-slate-500">
+          <span>{finished} / {items.length} processed</span>
+          <span>{progress}%</span>
+        </div>
+        <div className="h-2 w-full bg-slate-800/50 rounded-full overflow-hidden border border-slate-700/30">
+          <div className="h-full bg-blue-600 rounded-full transition-all duration-500" style={{ width: `${progress}%` }}></div>
+        </div>
+      </div>
+
+      <div className="bg-slate-900/40 border border-slate-800 rounded-[2rem] overflow-hidden">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-slate-950/60">
+            <tr>
+              {columns.map(([key, label]) => (
+                <th key={key} className="px-5 py-4">
+                  <button onClick={() => toggleSort(key)} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white flex items-center space-x-2">
+                    <span>{label}</span>
+                    {sortKey === key && <i className={`fas ${descending ? 'fa-sort-down' : 'fa-sort-up'}`}></i>}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr
+                key={`${row.item.id}-${row.codeIndex}`}
+                onClick={() => row.codeIndex >= 0 && onOpen(row.item, row.codeIndex)}
+                className={`border-t border-slate-800/70 ${row.codeIndex >= 0 ? 'cursor-pointer hover:bg-slate-800/30' : ''}`}
+              >
+                <td className="px-5 py-4 font-bold text-slate-300 max-w-[12rem]">
+                  <p className="truncate">{row.item.fileName}</p>
+                  {row.item.origin && <p className="truncate text-[10px] text-slate-500">{row.item.origin.label}</p>}
+                </td>
+                <td className="px-5 py-4 font-mono text-blue-400 max-w-[20rem] truncate">
+                  {row.payload ?? (
+                    <span className={row.item.status === 'error' ? 'text-rose-400' : 'text-slate-500'}>
+                      {row.item.status === 'error' ? row.item.error : STATUS_LABELS[row.item.status]}
+                      {['extracting', 'decoding', 'analyzing'].includes(row.item.status) && <i className="fas fa-circle-notch animate-spin ml-2"></i>}
+                    </span>
+                  )}
+                </td>
+                <td className="px-5 py-4 font-mono font-black text-slate-200">{row.riskScore ?? '—'}</td>
+                <td className={`px-5 py-4 font-black uppercase tracking-widest ${row.riskLevel ? LEVEL_TEXT[row.riskLevel] : 'text-slate-600'}`}>
+                  {row.riskLevel ?? STATUS_LABELS[row.item.status]}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchView;
@@ -1,3 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, AnalyzerSettings, ChatMessage } from '../types';
+import { SUGGESTED_QUESTIONS, askFollowUp } from '../services/chatService';
 
-// This component has been deprecated as the application is now fully local.
-export default () => null;
+interface ChatbotProps {
+  analysis: AnalysisResult;
+  settings: AnalyzerSettings;
+  messages: ChatMessage[];
+  onChange: (messages: ChatMessage[]) => void;
+}
+
+// Replies render as plain text: a model quoting the payload must not produce live links.
+const Chatbot: React.FC<ChatbotProps> = ({ analysis, settings, messages, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const [pending, setPending] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length, pending]);
+
+  const ask = async (question: string) => {
+    const text = question.trim();
+    if (!text || pending) return;
+    const asked: ChatMessage[] = [...messages, { role: 'user', content: text }];
+    setDraft('');
+    setPending(true);
+    onChange(asked);
+    const reply = await askFollowUp(settings, analysis, messages, text);
+    setPending(false);
+    onChange([...asked, reply]);
+  };
+
+  return (
+    <div className="bg-slate-950/60 border border-slate-800/80 rounded-[2.5rem] p-6 space-y-5">
+      {messages.length > 0 && (
+        <div className="space-y-4 max-h-96 overflow-y-auto pr-2">
+          {messages.map((m, i) => (
+            <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] px-5 py-3 rounded-2xl text-sm leading-relaxed whitespace-pre-wrap break-words ${
+                m.role === 'user' ? 'bg-blue-600 text-white' : 'bg-slate-800/60 text-slate-200 border border-slate-700/40'
+              }`}>
+                {m.content}
+                {m.offline && (
+                  <span className="block mt-2 text-[9px] font-black uppercase tracking-widest text-amber-400">
+                    <i className="fas fa-plug-circle-xmark mr-1"></i>Offline answer from local indicators
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+          {pending && (
+            <div className="flex justify-start">
+              <div className="px-5 py-3 rounded-2xl bg-slate-800/60 border border-slate-700/40 text-slate-500 text-sm">
+                <i className="fas fa-circle-notch animate-spin mr-2"></i>Thinking…
+              </div>
+            </div>
+          )}
+          <div ref={endRef}></div>
+        </div>
+      )}
+
+      {messages.length === 0 && (
+        <div className="flex flex-wrap gap-2">
+          {SUGGESTED_QUESTIONS.map(q => (
+            <button
+              key={q}
+              onClick={() => ask(q)}
+              className="px-4 py-2 bg-slate-800/50 hover:bg-slate-700 text-slate-300 rounded-xl text-xs font-bold transition-all border border-slate-700"
+            >
+              {q}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={e => { e.preventDefault(); ask(draft); }} className="flex gap-3">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder="Ask about this verdict..."
+          className="flex-1 px-5 py-3 bg-slate-900/60 border border-slate-800 rounded-2xl text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-600"
+        />
+        <button
+          type="submit"
+          disabled={pending || !draft.trim()}
+          className="w-12 h-12 bg-blue-600 hover:bg-blue-500 text-white rounded-2xl transition-all disabled:opacity-40 flex-shrink-0"
+          title="Send"
+        >
+          <i className="fas fa-paper-plane"></i>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default Chatbot;
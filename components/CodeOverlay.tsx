@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { CodeResult, RiskLevel } from '../types';
+
+interface CodeOverlayProps {
+  image: string;
+  codes: CodeResult[];
+  activeCode: number;
+  onSelect: (index: number) => void;
+}
+
+const LEVEL_STROKES: Record<RiskLevel, string> = {
+  [RiskLevel.LOW]: 'stroke-emerald-400',
+  [RiskLevel.MODERATE]: 'stroke-cyan-400',
+  [RiskLevel.SUSPICIOUS]: 'stroke-amber-400',
+  [RiskLevel.HIGH]: 'stroke-orange-500',
+  [RiskLevel.CRITICAL]: 'stroke-rose-500',
+};
+
+const LEVEL_FILLS: Record<RiskLevel, string> = {
+  [RiskLevel.LOW]: 'fill-emerald-400',
+  [RiskLevel.MODERATE]: 'fill-cyan-400',
+  [RiskLevel.SUSPICIOUS]: 'fill-amber-400',
+  [RiskLevel.HIGH]: 'fill-orange-500',
+  [RiskLevel.CRITICAL]: 'fill-rose-500',
+};
+
+const CodeOverlay: React.FC<CodeOverlayProps> = ({ image, codes, activeCode, onSelect }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const labelSize = size ? Math.max(size.width, size.height) / 30 : 0;
+
+  return (
+    <div className="relative rounded-[2rem] overflow-hidden border border-slate-800 bg-slate-950">
+      <img
+        src={image}
+        alt="Scanned source"
+        className="w-full h-auto block"
+        onLoad={e => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+      />
+      {size && (
+        <svg className="absolute inset-0 w-full h-full" viewBox={`0 0 ${size.width} ${size.height}`}>
+          {codes.map(({ code, analysis }, i) => {
+            if (!code.corners) return null;
+            const [tl] = code.corners;
+            const active = i === activeCode;
+            return (
+              <g key={i} onClick={() => onSelect(i)} className="cursor-pointer">
+                <polygon
+                  points={code.corners.map(p => `${p.x},${p.y}`).join(' ')}
+                  className={`${LEVEL_STROKES[analysis.riskLevel]} ${active ? 'fill-white/10' : 'fill-transparent'}`}
+                  strokeWidth={labelSize / (active ? 4 : 6)}
+                  strokeLinejoin="round"
+                />
+                <circle cx={tl.x} cy={tl.y} r={labelSize * 0.75} className={LEVEL_FILLS[analysis.riskLevel]} />
+                <text
+                  x={tl.x}
+                  y={tl.y}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={labelSize}
+                  className="fill-slate-950 font-black"
+                >
+                  {i + 1}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default CodeOverlay;
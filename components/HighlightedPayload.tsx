@@ -0,0 +1,62 @@
+import React from 'react';
+import { IndicatorSeverity, RiskIndicator } from '../types';
+
+interface HighlightedPayloadProps {
+  content: string;
+  indicators: RiskIndicator[];
+}
+
+const SEVERITY_RANK: Record<IndicatorSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const HIGHLIGHT_STYLES: Record<IndicatorSeverity, string> = {
+  low: 'bg-cyan-500/20 text-cyan-300',
+  medium: 'bg-amber-500/20 text-amber-300',
+  high: 'bg-orange-500/25 text-orange-300',
+  critical: 'bg-rose-500/30 text-rose-300',
+};
+
+// Marks every occurrence of each indicator's matched substring. Where spans overlap,
+// the character keeps the most severe indicator.
+const HighlightedPayload: React.FC<HighlightedPayloadProps> = ({ content, indicators }) => {
+  const marks: Array<RiskIndicator | null> = new Array(content.length).fill(null);
+  const lower = content.toLowerCase();
+
+  for (const ind of indicators) {
+    const needle = ind.match?.toLowerCase();
+    if (!needle) continue;
+    let from = lower.indexOf(needle);
+    while (from >= 0) {
+      for (let i = from; i < from + needle.length; i++) {
+        const current = marks[i];
+        if (!current || SEVERITY_RANK[ind.severity] > SEVERITY_RANK[current.severity]) marks[i] = ind;
+      }
+      from = lower.indexOf(needle, from + needle.length);
+    }
+  }
+
+  const segments: Array<{ text: string; indicator: RiskIndicator | null }> = [];
+  for (let i = 0; i < content.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.indicator === marks[i]) {
+      last.text += content[i];
+    } else {
+      segments.push({ text: content[i], indicator: marks[i] });
+    }
+  }
+
+  return (
+    <>
+      {segments.map((seg, i) =>
+        seg.indicator ? (
+          <mark key={i} title={seg.indicator.description} className={`rounded px-0.5 ${HIGHLIGHT_STYLES[seg.indicator.severity]}`}>
+            {seg.text}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{seg.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedPayload;
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryEntry, RiskLevel, ScanSource } from '../types';
+import { deleteScan, listScans } from '../services/historyService';
+import { exportCsv, exportJson, fromHistoryEntry } from '../services/exportService';
+
+interface HistoryViewProps {
+  onOpen: (entry: HistoryEntry) => void;
+}
+
+const LEVEL_BADGES: Record<RiskLevel, string> = {
+  [RiskLevel.LOW]: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/30',
+  [RiskLevel.MODERATE]: 'text-cyan-400 bg-cyan-500/10 border-cyan-500/30',
+  [RiskLevel.SUSPICIOUS]: 'text-amber-400 bg-amber-500/10 border-amber-500/30',
+  [RiskLevel.HIGH]: 'text-orange-500 bg-orange-500/10 border-orange-500/40',
+  [RiskLevel.CRITICAL]: 'text-rose-500 bg-rose-500/15 border-rose-500/50',
+};
+
+const SOURCE_ICONS: Record<ScanSource, string> = {
+  camera: 'fa-camera',
+  upload: 'fa-file-image',
+  share: 'fa-share-nodes',
+  paste: 'fa-paste',
+  manual: 'fa-keyboard',
+};
+
+const HistoryView: React.FC<HistoryViewProps> = ({ onOpen }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [level, setLevel] = useState<RiskLevel | 'ALL'>('ALL');
+
+  useEffect(() => {
+    listScans()
+      .then(setEntries)
+      .catch(err => setError(err.message || 'Scan history could not be loaded.'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteScan(id);
+      setEntries(prev => prev.filter(e => e.id !== id));
+    } catch (err: any) {
+      setError(err.message || 'The entry could not be deleted.');
+    }
+  };
+
+  const needle = query.trim().toLowerCase();
+  const visible = entries.filter(e =>
+    (level === 'ALL' || e.analysis.riskLevel === level) &&
+    (!needle || e.content.toLowerCase().includes(needle) || (e.domain || '').includes(needle))
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in duration-700 pb-20">
+      <div className="flex items-end justify-between">
+        <h2 className="text-5xl font-black text-white italic uppercase tracking-tighter">Scan <span className="text-blue-600">History</span></h2>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mr-2">{visible.length} / {entries.length} records</span>
+          {[
+            { icon: 'fa-file-code', label: 'JSON', action: () => exportJson(visible.map(fromHistoryEntry)) },
+            { icon: 'fa-file-csv', label: 'CSV', action: () => exportCsv(visible.map(fromHistoryEntry)) },
+          ].map(opt => (
+            <button
+              key={opt.label}
+              onClick={opt.action}
+              disabled={visible.length === 0}
+              className="px-4 py-2 bg-slate-800/50 hover:bg-slate-700 text-slate-300 rounded-xl font-black uppercase tracking-widest text-[10px] transition-all border border-slate-700 flex items-center space-x-2 disabled:opacity-40"
+            >
+              <i className={`fas ${opt.icon}`}></i>
+              <span>{opt.label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex-1 relative">
+          <i className="fas fa-search absolute left-5 top-1/2 -translate-y-1/2 text-slate-600 text-sm"></i>
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search domain or payload..."
+            className="w-full pl-12 pr-5 py-4 bg-slate-900/60 border border-slate-800 rounded-2xl text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-600"
+          />
+        </div>
+        <select
+          value={level}
+          onChange={e => setLevel(e.target.value as RiskLevel | 'ALL')}
+          className="px-5 py-4 bg-slate-900/60 border border-slate-800 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-300 focus:outline-none focus:border-blue-600"
+        >
+          <option value="ALL">All Levels</option>
+          {Object.values(RiskLevel).map(l => <option key={l} value={l}>{l}</option>)}
+        </select>
+      </div>
+
+      {error && <p className="text-rose-400 font-mono text-xs">{error}</p>}
+
+      {loading ? (
+        <div className="py-20 flex justify-center">
+          <div className="w-12 h-12 border-[3px] border-blue-500/10 border-t-blue-500 rounded-full animate-spin"></div>
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="py-20 text-center text-slate-500 font-bold text-sm">
+          {entries.length === 0 ? 'No scans recorded yet.' : 'No scans match the current filters.'}
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {visible.map(entry => (
+            <li key={entry.id} className="flex items-center gap-5 bg-slate-900/40 border border-slate-800 rounded-[2rem] p-4 hover:border-slate-700 transition-colors">
+              <button onClick={() => onOpen(entry)} className="flex items-center gap-5 flex-1 min-w-0 text-left">
+                <div className="w-16 h-16 rounded-2xl bg-slate-950 border border-slate-800 flex-shrink-0 overflow-hidden flex items-center justify-center">
+                  {entry.thumbnail
+                    ? <img src={entry.thumbnail} alt="" className="w-full h-full object-cover" />
+                    : <i className={`fas ${SOURCE_ICONS[entry.source] || 'fa-file-image'} text-slate-700`}></i>}
+                </div>
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="font-mono text-xs text-blue-400 truncate">{entry.content}</p>
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                    {new Date(entry.timestamp).toLocaleString()} · {entry.source}{entry.domain ? ` · ${entry.domain}` : ''}
+                  </p>
+                </div>
+                <span className={`px-3 py-1.5 rounded-xl border text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${LEVEL_BADGES[entry.analysis.riskLevel]}`}>
+                  {entry.analysis.riskScore} · {entry.analysis.riskLevel}
+                </span>
+              </button>
+              <button
+                onClick={() => handleDelete(entry.id)}
+                className="w-10 h-10 rounded-xl text-slate-600 hover:text-rose-500 hover:bg-rose-500/10 transition-colors flex-shrink-0"
+                title="Delete entry"
+              >
+                <i className="fas fa-trash-alt text-sm"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryView;
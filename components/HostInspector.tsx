@@ -0,0 +1,43 @@
+import React from 'react';
+import { HostInspection, SuspiciousChar } from '../services/idnService';
+
+interface HostInspectorProps {
+  inspection: HostInspection;
+}
+
+// Renders the decoded host one code point at a time so foreign-script lookalikes stand
+// out, with the raw punycode form underneath.
+const HostInspector: React.FC<HostInspectorProps> = ({ inspection }) => {
+  const flagged = new Map<number, SuspiciousChar>(inspection.suspicious.map(c => [c.index, c]));
+
+  return (
+    <div className="bg-rose-500/5 border border-rose-500/30 p-6 rounded-[2rem] space-y-4">
+      <p className="text-[10px] font-black uppercase tracking-widest text-rose-400 flex items-center">
+        <i className="fas fa-language mr-2"></i>
+        Lookalike characters in host
+        {inspection.brand && <span className="text-slate-400 ml-2">· imitates {inspection.brand.official}</span>}
+      </p>
+      <p className="font-mono text-2xl tracking-wider break-all">
+        {Array.from(inspection.unicode).map((ch, i) => {
+          const hit = flagged.get(i);
+          return hit ? (
+            <span key={i} title={`${hit.codePoint} ${hit.script}`} className="bg-rose-500/30 text-rose-200 rounded px-0.5 underline decoration-wavy decoration-rose-500">{ch}</span>
+          ) : (
+            <span key={i} className="text-slate-300">{ch}</span>
+          );
+        })}
+      </p>
+      <p className="font-mono text-[10px] text-slate-500 break-all">{inspection.ascii}</p>
+      <ul className="flex flex-wrap gap-2">
+        {inspection.suspicious.map(c => (
+          <li key={c.index} className="px-3 py-1.5 rounded-xl bg-slate-950/60 border border-slate-800 font-mono text-[10px] text-slate-300">
+            <span className="text-rose-300">{c.char}</span> {c.codePoint} · {c.script}
+            {c.looksLike !== c.char && <span className="text-slate-500"> · looks like "{c.looksLike}"</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HostInspector;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { IndicatorCategory, IndicatorSeverity, RiskIndicator } from '../types';
+
+interface IndicatorListProps {
+  indicators: RiskIndicator[];
+  score: number;
+}
+
+export const SEVERITY_STYLES: Record<IndicatorSeverity, string> = {
+  low: 'text-cyan-400 bg-cyan-500/10 border-cyan-500/30',
+  medium: 'text-amber-400 bg-amber-500/10 border-amber-500/30',
+  high: 'text-orange-500 bg-orange-500/10 border-orange-500/40',
+  critical: 'text-rose-500 bg-rose-500/15 border-rose-500/50',
+};
+
+const CATEGORY_ICONS: Record<IndicatorCategory, string> = {
+  domain: 'fa-globe',
+  scheme: 'fa-lock-open',
+  encoding: 'fa-code',
+  brand: 'fa-mask',
+  redirect: 'fa-route',
+  payload: 'fa-qrcode',
+  physical: 'fa-layer-group',
+  intel: 'fa-database',
+};
+
+const IndicatorList: React.FC<IndicatorListProps> = ({ indicators, score }) => {
+  const totalWeight = indicators.reduce((sum, ind) => sum + ind.weight, 0);
+  const sorted = [...indicators].sort((a, b) => b.weight - a.weight);
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Evidence Trail</h3>
+        <span className="text-[10px] font-mono font-bold text-slate-500">
+          Σ {totalWeight}{totalWeight > 100 ? ' → capped 100' : ''} / score {score}
+        </span>
+      </div>
+
+      {sorted.length === 0 ? (
+        <p className="text-xs text-slate-500 font-bold">No individual indicators fired for this payload.</p>
+      ) : (
+        <ul className="space-y-3">
+          {sorted.map((ind, i) => (
+            <li key={`${ind.id}-${i}`} className={`p-4 rounded-2xl border ${SEVERITY_STYLES[ind.severity]}`}>
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-2">
+                  <i className={`fas ${CATEGORY_ICONS[ind.category] || 'fa-flag'} text-xs`}></i>
+                  <span className="text-[10px] font-black uppercase tracking-widest">{ind.category} · {ind.severity}</span>
+                </div>
+                <span className="text-xs font-mono font-black">+{ind.weight}</span>
+              </div>
+              <p className="text-xs text-slate-300 font-bold leading-relaxed">{ind.description}</p>
+              {ind.match && (
+                <code className="mt-2 inline-block text-[10px] font-mono text-slate-400 bg-slate-950/60 px-2 py-1 rounded-lg break-all">{ind.match}</code>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default IndicatorList;
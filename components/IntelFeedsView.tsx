@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { IntelFeed } from '../types';
+import { deleteFeed, importFeed, listFeeds } from '../services/threatIntelService';
+import { FEED_FORMAT_LABELS } from '../services/intelFeedParser';
+
+const BUTTON_CLASS = 'px-4 py-2 bg-slate-800/50 hover:bg-slate-700 text-slate-300 rounded-xl font-black uppercase tracking-widest text-[10px] transition-all border border-slate-700 flex items-center space-x-2';
+
+const formatDate = (value: string | number | null) => (value === null ? '—' : new Date(value).toLocaleString());
+
+const IntelFeedsView: React.FC = () => {
+  const [feeds, setFeeds] = useState<IntelFeed[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  useEffect(() => {
+    listFeeds()
+      .then(setFeeds)
+      .catch(err => setMessage({ text: err.message || 'Threat feeds could not be loaded.', error: true }))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleImport = async (files: File[]) => {
+    setImporting(true);
+    const errors: string[] = [];
+    let imported = 0;
+    for (const file of files) {
+      try {
+        const feed = await importFeed(file.name, await file.text());
+        setFeeds(prev => [feed, ...prev]);
+        imported++;
+      } catch (err: any) {
+        errors.push(err.message || `${file.name} could not be imported.`);
+      }
+    }
+    setImporting(false);
+    setMessage(errors.length
+      ? { text: errors.join(' '), error: true }
+      : { text: `Imported ${imported} feed${imported === 1 ? '' : 's'}.`, error: false });
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteFeed(id);
+      setFeeds(prev => prev.filter(f => f.id !== id));
+    } catch (err: any) {
+      setMessage({ text: err.message || 'The feed could not be removed.', error: true });
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in duration-700 pb-20">
+      <div className="flex items-end justify-between">
+        <h2 className="text-5xl font-black text-white italic uppercase tracking-tighter">Threat <span className="text-blue-600">Intel</span></h2>
+        <label className={`${BUTTON_CLASS} ${importing ? 'opacity-40 pointer-events-none' : 'cursor-pointer'}`}>
+          <input
+            type="file"
+            multiple
+            accept=".csv,.json,.txt,text/csv,text/plain,application/json"
+            className="hidden"
+            onChange={e => { const files = Array.from<File>(e.target.files || []); if (files.length) handleImport(files); e.target.value = ''; }}
+          />
+          <i className={`fas ${importing ? 'fa-spinner animate-spin' : 'fa-file-import'}`}></i>
+          <span>{importing ? 'Importing' : 'Import Feeds'}</span>
+        </label>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Import dumps from URLhaus (CSV), PhishTank (JSON), OpenPhish (plain text) or any STIX 2.1 bundle. Feeds stay on this device;
+        every scanned payload is matched against them by exact URL, host and registrable domain.
+      </p>
+
+      {message && <p className={`font-mono text-xs ${message.error ? 'text-rose-400' : 'text-emerald-400'}`}>{message.text}</p>}
+
+      {loading ? (
+        <div className="py-20 flex justify-center">
+          <div className="w-12 h-12 border-[3px] border-blue-500/10 border-t-blue-500 rounded-full animate-spin"></div>
+        </div>
+      ) : feeds.length === 0 ? (
+        <p className="py-20 text-center text-slate-500 font-bold text-sm">No threat feeds imported yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {feeds.map(feed => (
+            <li key={feed.id} className="flex items-center gap-5 bg-slate-900/40 border border-slate-800 rounded-[2rem] p-5">
+              <div className="w-12 h-12 rounded-2xl bg-slate-950 border border-slate-800 flex-shrink-0 flex items-center justify-center">
+                <i className="fas fa-database text-slate-600"></i>
+              </div>
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="text-sm font-black text-white truncate">{feed.name} <span className="text-slate-500 font-mono font-normal text-xs">{feed.fileName}</span></p>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                  {FEED_FORMAT_LABELS[feed.format]} · {feed.entryCount.toLocaleString()} entries · published {formatDate(feed.publishedAt)} · imported {formatDate(feed.importedAt)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(feed.id)}
+                className="w-10 h-10 rounded-xl text-slate-600 hover:text-rose-500 hover:bg-rose-500/10 transition-colors flex-shrink-0"
+                title="Remove feed"
+              >
+                <i className="fas fa-trash-alt text-sm"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default IntelFeedsView;
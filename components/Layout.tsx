@@ -1,12 +1,28 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 
 interface LayoutProps {
   children: React.ReactNode;
   onHomeClick: () => void;
+  onHistoryClick: () => void;
+  onSettingsClick: () => void;
+  onPolicyClick: () => void;
+  onIntelClick: () => void;
 }
 
-const Layout: React.FC<LayoutProps> = ({ children, onHomeClick }) => {
+const Layout: React.FC<LayoutProps> = ({ children, onHomeClick, onHistoryClick, onSettingsClick, onPolicyClick, onIntelClick }) => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
   return (
     <div className="relative min-h-screen flex flex-col font-sans">
       <header className="border-b border-slate-800 bg-slate-900/80 backdrop-blur-md sticky top-0 z-40">
@@ -21,8 +37,16 @@ const Layout: React.FC<LayoutProps> = ({ children, onHomeClick }) => {
             <span className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-emerald-400">
               QRShield
             </span>
+            {!online && (
+              <span
+                className="ml-2 px-2 py-1 rounded-lg bg-amber-500/10 border border-amber-500/30 text-amber-400 text-[10px] font-black uppercase tracking-widest"
+                title="No network: scanning, local analysis and history still work."
+              >
+                <i className="fas fa-plane mr-1"></i>Offline
+              </span>
+            )}
           </div>
-          <nav>
+          <nav className="flex items-center space-x-6">
             <button 
               onClick={onHomeClick}
               className="text-slate-400 hover:text-white transition-colors flex items-center space-x-1"
@@ -30,6 +54,34 @@ const Layout: React.FC<LayoutProps> = ({ children, onHomeClick }) => {
               <i className="fas fa-home"></i>
               <span className="hidden sm:inline">Home</span>
             </button>
+            <button 
+              onClick={onHistoryClick}
+              className="text-slate-400 hover:text-white transition-colors flex items-center space-x-1"
+            >
+              <i className="fas fa-clock-rotate-left"></i>
+              <span className="hidden sm:inline">History</span>
+            </button>
+            <button 
+              onClick={onPolicyClick}
+              className="text-slate-400 hover:text-white transition-colors flex items-center space-x-1"
+            >
+              <i className="fas fa-building-shield"></i>
+              <span className="hidden sm:inline">Policy</span>
+            </button>
+            <button 
+              onClick={onIntelClick}
+              className="text-slate-400 hover:text-white transition-colors flex items-center space-x-1"
+            >
+              <i className="fas fa-database"></i>
+              <span className="hidden sm:inline">Intel</span>
+            </button>
+            <button 
+              onClick={onSettingsClick}
+              className="text-slate-400 hover:text-white transition-colors flex items-center space-x-1"
+            >
+              <i className="fas fa-sliders"></i>
+              <span className="hidden sm:inline">Settings</span>
+            </button>
           </nav>
         </div>
       </header>
@@ -0,0 +1,102 @@
+import React from 'react';
+import { ParsedPayload } from '../types';
+import { PAYLOAD_LABELS } from '../services/payloadParser';
+
+interface PayloadDetailsProps {
+  payload: ParsedPayload;
+}
+
+const PAYLOAD_ICONS: Record<ParsedPayload['type'], string> = {
+  url: 'fa-link',
+  wifi: 'fa-wifi',
+  email: 'fa-envelope',
+  sms: 'fa-comment-sms',
+  tel: 'fa-phone',
+  vcard: 'fa-address-card',
+  vevent: 'fa-calendar-day',
+  geo: 'fa-location-dot',
+  upi: 'fa-indian-rupee-sign',
+  emv: 'fa-credit-card',
+  text: 'fa-align-left',
+};
+
+const getFields = (payload: ParsedPayload): Array<[string, string | undefined]> => {
+  switch (payload.type) {
+    case 'url':
+      return [['Destination', payload.url]];
+    case 'wifi':
+      return [
+        ['Network (SSID)', payload.ssid],
+        ['Security', payload.security === 'nopass' ? 'Open (no password)' : payload.security],
+        ['Password', payload.password ? '•'.repeat(Math.min(payload.password.length, 12)) : undefined],
+        ['Hidden', payload.hidden ? 'Yes' : 'No'],
+      ];
+    case 'email':
+      return [['To', payload.to], ['Subject', payload.subject], ['Body', payload.body]];
+    case 'sms':
+      return [['Number', payload.number], ['Message', payload.message]];
+    case 'tel':
+      return [['Number', payload.number]];
+    case 'vcard':
+      return [
+        ['Name', payload.name],
+        ['Organization', payload.organization],
+        ['Phones', payload.phones.join(', ') || undefined],
+        ['Emails', payload.emails.join(', ') || undefined],
+        ['Links', payload.urls.join(', ') || undefined],
+      ];
+    case 'vevent':
+      return [
+        ['Summary', payload.summary],
+        ['Starts', payload.start],
+        ['Ends', payload.end],
+        ['Location', payload.location],
+        ['Links', payload.urls.join(', ') || undefined],
+      ];
+    case 'geo':
+      return [['Coordinates', `${payload.latitude}, ${payload.longitude}`], ['Query', payload.query]];
+    case 'upi':
+      return [
+        ['Payee Address', payload.payeeAddress],
+        ['Payee Name', payload.payeeName],
+        ['Amount', payload.amount ? `${payload.amount} ${payload.currency || ''}`.trim() : undefined],
+        ['Note', payload.note],
+      ];
+    case 'emv':
+      return [
+        ['Merchant', payload.merchantName],
+        ['City', payload.merchantCity],
+        ['Country', payload.countryCode],
+        ['Accounts', payload.accounts.join(', ') || undefined],
+        ['Amount', payload.amount ? `${payload.amount} (${payload.currency || '?'})` : undefined],
+        ['Checksum', payload.crcValid ? 'Valid' : 'Invalid'],
+      ];
+    case 'text':
+      return [['Text', payload.text]];
+  }
+};
+
+const PayloadDetails: React.FC<PayloadDetailsProps> = ({ payload }) => {
+  const fields = getFields(payload).filter(([, value]) => value !== undefined && value !== '');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-3">
+        <div className="w-8 h-8 bg-blue-500/10 text-blue-500 rounded-xl flex items-center justify-center">
+          <i className={`fas ${PAYLOAD_ICONS[payload.type]} text-sm`}></i>
+        </div>
+        <span className="text-xs font-black uppercase tracking-[0.2em] text-slate-300">{PAYLOAD_LABELS[payload.type]}</span>
+      </div>
+      <dl className="grid grid-cols-1 sm:grid-cols-3 gap-x-6 gap-y-3">
+        {fields.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-[10px] font-black uppercase tracking-widest text-slate-500 pt-0.5">{label}</dt>
+            <dd className="sm:col-span-2 font-mono text-xs text-slate-200 break-all">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default PayloadDetails;
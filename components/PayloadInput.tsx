@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { MAX_MANUAL_PAYLOADS, splitManualInput } from '../services/payloadParser';
+
+interface PayloadInputProps {
+  onSubmit: (payloads: string[]) => void;
+}
+
+const PayloadInput: React.FC<PayloadInputProps> = ({ onSubmit }) => {
+  const [text, setText] = useState('');
+  const [perLine, setPerLine] = useState(false);
+
+  const payloads = splitManualInput(text, perLine);
+
+  return (
+    <form
+      onSubmit={e => { e.preventDefault(); if (payloads.length) onSubmit(payloads); }}
+      className="max-w-3xl mx-auto bg-slate-900/40 border border-slate-800 rounded-[2rem] p-6 space-y-4 text-left"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-sm font-black uppercase tracking-tight text-white">
+          <i className="fas fa-keyboard mr-2 text-blue-500"></i>Paste Payload
+        </h3>
+        <label className="flex items-center space-x-2 cursor-pointer">
+          <input type="checkbox" checked={perLine} onChange={e => setPerLine(e.target.checked)} className="accent-blue-600 w-4 h-4" />
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">One payload per line</span>
+        </label>
+      </div>
+      <textarea
+        rows={4}
+        value={text}
+        onChange={e => setText(e.target.value)}
+        placeholder={'https://example.com/login\nor the raw text of a QR code'}
+        spellCheck={false}
+        className="w-full px-4 py-3 bg-slate-950/60 border border-slate-800 rounded-xl text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-600 font-mono"
+      />
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-[10px] text-slate-600">
+          Several URLs are analyzed separately; other text is treated as one payload unless split per line. Up to {MAX_MANUAL_PAYLOADS} at a time.
+        </p>
+        <button
+          type="submit"
+          disabled={payloads.length === 0}
+          className="px-6 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-black uppercase tracking-widest text-[10px] transition-all disabled:opacity-40 whitespace-nowrap"
+        >
+          Analyze{payloads.length > 1 ? ` ${payloads.length}` : ''}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PayloadInput;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { OrgPolicy } from '../types';
+import { normalizePolicy, parsePolicy, serializePolicy } from '../services/policyService';
+import { downloadFile, fileStamp } from '../services/exportService';
+
+interface PolicyEditorProps {
+  policy: OrgPolicy;
+  onChange: (policy: OrgPolicy) => void;
+}
+
+interface Draft {
+  trustedDomains: string;
+  blockedDomains: string;
+  blockedPatterns: string;
+  brands: Array<{ name: string; domains: string }>;
+}
+
+const toDraft = (policy: OrgPolicy): Draft => ({
+  trustedDomains: policy.trustedDomains.join('\n'),
+  blockedDomains: policy.blockedDomains.join('\n'),
+  blockedPatterns: policy.blockedPatterns.join('\n'),
+  brands: policy.brands.map(b => ({ name: b.name, domains: b.domains.join(', ') })),
+});
+
+const lines = (text: string) => text.split('\n');
+
+const fromDraft = (draft: Draft): OrgPolicy => normalizePolicy({
+  trustedDomains: lines(draft.trustedDomains),
+  blockedDomains: lines(draft.blockedDomains),
+  blockedPatterns: lines(draft.blockedPatterns),
+  brands: draft.brands.map(b => ({ name: b.name, domains: b.domains.split(/[\s,]+/) })),
+});
+
+const INPUT_CLASS = 'w-full px-4 py-3 bg-slate-950/60 border border-slate-800 rounded-xl text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-600 font-mono';
+const LABEL_CLASS = 'block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2';
+const BUTTON_CLASS = 'px-4 py-2 bg-slate-800/50 hover:bg-slate-700 text-slate-300 rounded-xl font-black uppercase tracking-widest text-[10px] transition-all border border-slate-700 flex items-center space-x-2';
+
+const PolicyEditor: React.FC<PolicyEditorProps> = ({ policy, onChange }) => {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(policy));
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const save = () => {
+    const next = fromDraft(draft);
+    onChange(next);
+    setDraft(toDraft(next));
+    setMessage({ text: 'Policy saved.', error: false });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parsePolicy(await file.text());
+      onChange(imported);
+      setDraft(toDraft(imported));
+      setMessage({ text: `Imported ${file.name}.`, error: false });
+    } catch (err: any) {
+      setMessage({ text: err.message || 'The policy file could not be imported.', error: true });
+    }
+  };
+
+  const updateBrand = (index: number, patch: Partial<Draft['brands'][number]>) =>
+    setDraft(prev => ({ ...prev, brands: prev.brands.map((b, i) => (i === index ? { ...b, ...patch } : b)) }));
+
+  const listField = (key: 'trustedDomains' | 'blockedDomains' | 'blockedPatterns', label: string, hint: string, placeholder: string) => (
+    <div>
+      <label className={LABEL_CLASS}>{label}</label>
+      <textarea
+        rows={5}
+        value={draft[key]}
+        placeholder={placeholder}
+        onChange={e => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+        className={INPUT_CLASS}
+      />
+      <p className="text-[10px] text-slate-600 mt-2">{hint}</p>
+    </div>
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in duration-700 pb-20">
+      <div className="flex items-end justify-between">
+        <h2 className="text-5xl font-black text-white italic uppercase tracking-tighter">Org <span className="text-blue-600">Policy</span></h2>
+        <div className="flex items-center gap-3">
+          <label className={`${BUTTON_CLASS} cursor-pointer`}>
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => { const file = e.target.files?.[0]; if (file) handleImport(file); e.target.value = ''; }}
+            />
+            <i className="fas fa-file-import"></i>
+            <span>Import</span>
+          </label>
+          <button
+            onClick={() => downloadFile(`qrshield-policy-${fileStamp()}.json`, 'application/json', serializePolicy(policy))}
+            className={BUTTON_CLASS}
+          >
+            <i className="fas fa-file-export"></i>
+            <span>Export</span>
+          </button>
+        </div>
+      </div>
+
+      {message && <p className={`font-mono text-xs ${message.error ? 'text-rose-400' : 'text-emerald-400'}`}>{message.text}</p>}
+
+      <div className="bg-slate-900/40 border border-slate-800 rounded-[2rem] p-6 grid sm:grid-cols-2 gap-6">
+        {listField('trustedDomains', 'Trusted Domains', 'One per line. Subdomains are included. Payloads that only reach these domains are reported LOW.', 'pay.example.com')}
+        {listField('blockedDomains', 'Blocked Domains', 'One per line. Subdomains are included. Any match is reported CRITICAL.', 'evil.example')}
+        <div className="sm:col-span-2">
+          {listField('blockedPatterns', 'Blocked Patterns', 'One per line, matched against the whole payload. Use * as a wildcard.', '*/wp-admin/*login*')}
+        </div>
+      </div>
+
+      <div className="bg-slate-900/40 border border-slate-800 rounded-[2rem] p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-black uppercase tracking-tight text-white">Protected Brands</h3>
+          <button onClick={() => setDraft(prev => ({ ...prev, brands: [...prev.brands, { name: '', domains: '' }] }))} className={BUTTON_CLASS}>
+            <i className="fas fa-plus"></i>
+            <span>Add Brand</span>
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">Lookalikes of these names are flagged: misspellings, swapped characters, added hyphens and the name used as a subdomain of another site.</p>
+        {draft.brands.length === 0 && <p className="text-xs text-slate-600 font-bold">No protected brands yet.</p>}
+        {draft.brands.map((brand, i) => (
+          <div key={i} className="flex flex-col sm:flex-row gap-3 items-start sm:items-center">
+            <input value={brand.name} placeholder="acmepay" onChange={e => updateBrand(i, { name: e.target.value })} className={`${INPUT_CLASS} sm:w-48`} />
+            <input value={brand.domains} placeholder="acmepay.com, acmepay.co.uk" onChange={e => updateBrand(i, { domains: e.target.value })} className={`${INPUT_CLASS} flex-1`} />
+            <button
+              onClick={() => setDraft(prev => ({ ...prev, brands: prev.brands.filter((_, j) => j !== i) }))}
+              className="w-10 h-10 rounded-xl text-slate-600 hover:text-rose-500 hover:bg-rose-500/10 transition-colors flex-shrink-0"
+              title="Remove brand"
+            >
+              <i className="fas fa-trash-can"></i>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={save}
+        className="w-full py-5 bg-blue-600 hover:bg-blue-500 text-white rounded-[2rem] font-black uppercase tracking-widest text-sm transition-all"
+      >
+        Save Policy
+      </button>
+    </div>
+  );
+};
+
+export default PolicyEditor;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { PolicyMatch, PolicyMatchKind } from '../types';
+
+interface PolicyMatchesProps {
+  matches: PolicyMatch[];
+}
+
+const KIND_STYLES: Record<PolicyMatchKind, { icon: string; label: string; style: string }> = {
+  trusted: { icon: 'fa-circle-check', label: 'Trusted domain', style: 'text-emerald-400 bg-emerald-500/5 border-emerald-500/20' },
+  'blocked-domain': { icon: 'fa-ban', label: 'Blocked domain', style: 'text-rose-400 bg-rose-500/5 border-rose-500/30' },
+  'blocked-pattern': { icon: 'fa-filter-circle-xmark', label: 'Blocked pattern', style: 'text-rose-400 bg-rose-500/5 border-rose-500/30' },
+  'protected-brand': { icon: 'fa-copyright', label: 'Protected brand lookalike', style: 'text-orange-400 bg-orange-500/5 border-orange-500/30' },
+};
+
+const PolicyMatches: React.FC<PolicyMatchesProps> = ({ matches }) => (
+  <div className="space-y-3">
+    {matches.map((m, i) => {
+      const kind = KIND_STYLES[m.kind];
+      return (
+        <div key={i} className={`flex items-start space-x-4 border p-5 rounded-[2rem] ${kind.style}`}>
+          <i className={`fas ${kind.icon} text-lg mt-0.5`}></i>
+          <div className="min-w-0 text-xs font-bold leading-relaxed">
+            <p className="font-black uppercase tracking-widest text-[10px]">Organisation policy · {kind.label}</p>
+            <p className="text-slate-300 break-all">
+              <span className="font-mono">{m.value}</span>
+              <span className="text-slate-500"> matched rule </span>
+              <span className="font-mono">{m.rule}</span>
+            </p>
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default PolicyMatches;
@@ -53,7 +53,7 @@ const ProbabilityBreakdown: React.FC<ProbabilityBreakdownProps> = ({ probabiliti
           <div className="h-2 w-full bg-slate-800/50 rounded-full overflow-hidden border border-slate-700/30 p-0.5">
             <div 
               className={`h-full ${m.color} rounded-full transition-all duration-1000 ease-out`} 
-              style={{ width: `${m.value}%` }}
+              style={{ width: `${Math.max(0, Math.min(100, m.value))}%` }}
             ></div>
           </div>
           <div className="absolute -bottom-6 left-0 opacity-0 group-hover:opacity-100 transition-opacity z-20 pointer-events-none">
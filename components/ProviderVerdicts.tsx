@@ -0,0 +1,49 @@
+import React from 'react';
+import { AnalyzerId, ProviderVerdict } from '../types';
+import { hasDisagreement } from '../services/analyzerService';
+
+interface ProviderVerdictsProps {
+  verdicts: ProviderVerdict[];
+}
+
+const PROVIDER_NAMES: Record<AnalyzerId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+  local: 'Local heuristics',
+};
+
+const ProviderVerdicts: React.FC<ProviderVerdictsProps> = ({ verdicts }) => {
+  const disagree = hasDisagreement(verdicts);
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Provider Verdicts</h3>
+      {disagree && (
+        <div className="flex items-start gap-3 p-4 rounded-2xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs font-bold">
+          <i className="fas fa-code-compare mt-0.5"></i>
+          <span>Providers disagree on this payload. Treat the combined score with caution and review each finding.</span>
+        </div>
+      )}
+      <ul className="space-y-2">
+        {verdicts.map(v => (
+          <li key={v.provider} className="flex items-center justify-between gap-4 p-4 rounded-2xl bg-slate-950/50 border border-slate-800">
+            <span className="text-xs font-black uppercase tracking-tight text-slate-300">{PROVIDER_NAMES[v.provider]}</span>
+            {v.error ? (
+              <span className="text-[10px] font-bold text-rose-400 truncate" title={v.error}>Failed: {v.error}</span>
+            ) : (
+              <span className="flex items-center gap-4 font-mono text-[10px] text-slate-400">
+                <span>M {v.probabilities.malicious}%</span>
+                <span>F {v.probabilities.fake}%</span>
+                <span>A {v.probabilities.authentic}%</span>
+                <span className="font-black text-white text-xs">{v.riskScore}</span>
+                <span className="font-black uppercase tracking-widest">{v.riskLevel}</span>
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ProviderVerdicts;
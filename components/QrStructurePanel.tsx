@@ -0,0 +1,78 @@
+import React from 'react';
+import { QrEcLevel, QrStructure } from '../types';
+import { HEAVY_CORRECTION_RATIO } from '../services/qrForensicsService';
+
+interface QrStructurePanelProps {
+  structure: QrStructure;
+}
+
+const EC_RECOVERY: Record<QrEcLevel, string> = { L: '7%', M: '15%', Q: '25%', H: '30%' };
+
+const FACT_CLASS = 'text-[10px] font-black uppercase tracking-widest text-slate-500';
+
+const QrStructurePanel: React.FC<QrStructurePanelProps> = ({ structure }) => {
+  const { codewords } = structure;
+  const heavyCorrection = !!codewords && codewords.capacity > 0 && codewords.corrected / codewords.capacity >= HEAVY_CORRECTION_RATIO;
+
+  const facts = [
+    { label: 'Version', value: `${structure.version}`, detail: `${structure.version * 4 + 17}×${structure.version * 4 + 17} modules`, alert: false },
+    { label: 'EC level', value: structure.ecLevel || '—', detail: structure.ecLevel ? `recovers ${EC_RECOVERY[structure.ecLevel]}` : 'unread', alert: false },
+    { label: 'Mask', value: structure.mask !== undefined ? `${structure.mask}` : '—', detail: 'pattern', alert: false },
+    {
+      label: 'Corrected',
+      value: codewords ? `${codewords.corrected}/${codewords.capacity}` : '—',
+      detail: codewords ? `of ${codewords.total} codewords` : 'unread',
+      alert: heavyCorrection,
+    },
+  ];
+
+  const flags = [
+    { label: 'Hidden bytes', value: structure.hiddenBytes, alert: structure.hiddenBytes > 0 },
+    { label: 'Non-printable chars', value: structure.nonPrintable, alert: structure.nonPrintable > 0 },
+    { label: 'Mixed encoding', value: structure.mixedEncoding ? 'Yes' : 'No', alert: structure.mixedEncoding },
+  ];
+
+  return (
+    <div className="space-y-5 text-xs">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {facts.map(fact => (
+          <div key={fact.label} className={`p-3 rounded-xl border ${fact.alert ? 'border-rose-500/40 bg-rose-500/10' : 'border-slate-800 bg-slate-900/40'}`}>
+            <p className={`text-xl font-black ${fact.alert ? 'text-rose-400' : 'text-white'}`}>{fact.value}</p>
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">{fact.label} · {fact.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <p className={FACT_CLASS}>Encoding segments</p>
+        <div className="flex flex-wrap gap-2">
+          {structure.segments.map((segment, i) => (
+            <span key={i} className="px-3 py-1 rounded-full bg-slate-900/60 border border-slate-800 font-mono text-slate-300">
+              {segment.mode}
+              <span className="text-slate-500"> · {segment.mode === 'eci' ? `ECI ${segment.length}` : segment.length}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {flags.map(flag => (
+          <div key={flag.label} className={`p-3 rounded-xl border ${flag.alert ? 'border-rose-500/40 bg-rose-500/10' : 'border-slate-800 bg-slate-900/40'}`}>
+            <p className={`text-lg font-black ${flag.alert ? 'text-rose-400' : 'text-white'}`}>{flag.value}</p>
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">{flag.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {!codewords && (
+        <p className="text-[10px] text-slate-600">
+          {structure.ecLevel
+            ? 'The codewords could not be read back cleanly from the image, so the correction estimate is unavailable.'
+            : 'Format and codeword details need the code as located in the original image; recovered or low-quality captures only report the decoded segments.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default QrStructurePanel;
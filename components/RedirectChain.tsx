@@ -0,0 +1,42 @@
+import React from 'react';
+import { RedirectHop, RedirectVia, RiskLevel } from '../types';
+
+interface RedirectChainProps {
+  hops: RedirectHop[];
+}
+
+const VIA_LABELS: Record<RedirectVia, string> = {
+  scan: 'Scanned link',
+  wrapper: 'Unwrapped',
+  http: 'Redirect',
+  'meta-refresh': 'Meta refresh',
+};
+
+const LEVEL_DOTS: Record<RiskLevel, string> = {
+  [RiskLevel.LOW]: 'bg-emerald-500',
+  [RiskLevel.MODERATE]: 'bg-cyan-500',
+  [RiskLevel.SUSPICIOUS]: 'bg-amber-500',
+  [RiskLevel.HIGH]: 'bg-orange-500',
+  [RiskLevel.CRITICAL]: 'bg-rose-500',
+};
+
+// URLs are shown as text only; a hop in a phishing chain must never be one click away.
+const RedirectChain: React.FC<RedirectChainProps> = ({ hops }) => (
+  <ol className="relative space-y-5 pl-8 before:absolute before:left-[7px] before:top-2 before:bottom-2 before:w-px before:bg-slate-800">
+    {hops.map((hop, i) => (
+      <li key={i} className="relative">
+        <span className={`absolute -left-8 top-1 w-4 h-4 rounded-full border-4 border-slate-950 ${LEVEL_DOTS[hop.riskLevel]}`}></span>
+        <div className="flex items-center justify-between gap-3 mb-1">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+            {i === hops.length - 1 && i > 0 ? 'Final destination' : VIA_LABELS[hop.via]}
+            {hop.detail && <span className="text-slate-600"> · {hop.detail}</span>}
+          </span>
+          <span className="text-[10px] font-mono font-black text-slate-400 whitespace-nowrap">{hop.riskScore} · {hop.riskLevel}</span>
+        </div>
+        <p className="font-mono text-xs text-blue-400 break-all select-all">{hop.url}</p>
+      </li>
+    ))}
+  </ol>
+);
+
+export default RedirectChain;
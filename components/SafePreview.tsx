@@ -0,0 +1,107 @@
+import React from 'react';
+import { PagePreview } from '../types';
+
+interface SafePreviewProps {
+  preview?: PagePreview;
+  loading: boolean;
+  error: string | null;
+  // False when no preview proxy is configured.
+  available: boolean;
+  onRun: () => void;
+}
+
+const FACT_CLASS = 'text-[10px] font-black uppercase tracking-widest text-slate-500';
+
+// Everything here is text extracted from the page; none of it is rendered as markup or links.
+const SafePreview: React.FC<SafePreviewProps> = ({ preview, loading, error, available, onRun }) => {
+  if (!preview) {
+    return (
+      <div className="space-y-3">
+        <button
+          onClick={onRun}
+          disabled={!available || loading}
+          className="w-full py-4 bg-slate-800/50 hover:bg-slate-700 text-slate-300 rounded-2xl font-black uppercase tracking-widest text-[10px] transition-all border border-slate-700 flex items-center justify-center space-x-2 disabled:opacity-40"
+        >
+          <i className={`fas ${loading ? 'fa-circle-notch animate-spin' : 'fa-eye'}`}></i>
+          <span>{loading ? 'Fetching Through Proxy' : 'Safe Preview'}</span>
+        </button>
+        <p className="text-[10px] text-slate-600">
+          {available
+            ? 'Fetches the page through your preview proxy. Scripts never run and nothing from the page is loaded in this browser.'
+            : 'Configure a preview proxy in Settings to inspect the destination without opening it.'}
+        </p>
+        {error && <p className="text-rose-400 font-mono text-xs">{error}</p>}
+      </div>
+    );
+  }
+
+  const passwordForms = preview.forms.filter(f => f.hasPassword).length;
+
+  return (
+    <div className="space-y-5 text-xs">
+      <div className="space-y-1">
+        <p className={FACT_CLASS}>Page title</p>
+        <p className="text-slate-200 font-bold break-words">{preview.title || '—'}</p>
+      </div>
+      <div className="space-y-1">
+        <p className={FACT_CLASS}>Final URL · HTTP {preview.status}{preview.contentType && ` · ${preview.contentType}`}</p>
+        <p className="font-mono text-blue-400 break-all select-all">{preview.finalUrl}</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {[
+          { label: 'Forms', value: preview.forms.length, alert: false },
+          { label: 'Password fields', value: preview.passwordFields, alert: preview.passwordFields > 0 },
+          { label: 'External script hosts', value: preview.externalScriptHosts.length, alert: false },
+        ].map(fact => (
+          <div key={fact.label} className={`p-3 rounded-xl border ${fact.alert ? 'border-rose-500/40 bg-rose-500/10' : 'border-slate-800 bg-slate-900/40'}`}>
+            <p className={`text-xl font-black ${fact.alert ? 'text-rose-400' : 'text-white'}`}>{fact.value}</p>
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">{fact.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {preview.brandMatches.length > 0 && (
+        <p className="text-rose-400 font-bold">
+          <i className="fas fa-masks-theater mr-2"></i>
+          Shows {preview.brandMatches.join(', ')} branding on a domain that does not belong to {preview.brandMatches.length === 1 ? 'it' : 'them'}.
+        </p>
+      )}
+
+      {preview.forms.length > 0 && (
+        <div className="space-y-2">
+          <p className={FACT_CLASS}>Forms{passwordForms > 0 && <span className="text-rose-400"> · {passwordForms} collect passwords</span>}</p>
+          <ul className="space-y-2">
+            {preview.forms.map((form, i) => (
+              <li key={i} className="p-3 rounded-xl bg-slate-900/40 border border-slate-800 space-y-1">
+                <p className="font-mono text-slate-300 break-all">
+                  {form.method} {form.action || '(same page)'}
+                  {form.offsite && <span className="text-amber-400 font-sans font-black"> · off-site</span>}
+                </p>
+                {form.fields.length > 0 && <p className="font-mono text-slate-500 break-all">{form.fields.join(', ')}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {preview.externalScriptHosts.length > 0 && (
+        <div className="space-y-1">
+          <p className={FACT_CLASS}>External script hosts</p>
+          <p className="font-mono text-slate-400 break-all">{preview.externalScriptHosts.join(', ')}</p>
+        </div>
+      )}
+
+      {preview.textExcerpt && (
+        <div className="space-y-1">
+          <p className={FACT_CLASS}>Visible text</p>
+          <p className="text-slate-400 leading-relaxed break-words">{preview.textExcerpt}</p>
+        </div>
+      )}
+
+      <p className="text-[10px] text-slate-600">Fetched {new Date(preview.fetchedAt).toLocaleString()}</p>
+    </div>
+  );
+};
+
+export default SafePreview;
@@ -1,23 +1,62 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import jsQR from 'jsqr';
+import jsQR, { QRCode } from 'jsqr';
+import { DetectedCode } from '../types';
+import { detectAllCodes } from '../services/multiCodeService';
+import {
+  CameraCapabilities, CameraError, CameraErrorKind, focusAt, listCameras, loadPreferredCamera,
+  openCamera, readCapabilities, savePreferredCamera, setTorch, setZoom, toCameraError,
+} from '../services/cameraService';
 
 interface ScannerProps {
-  onScan: (content: string) => void;
+  onScan: (codes: DetectedCode[], base64: string) => void;
   onDeepScan: (base64: string) => void;
   onCancel: () => void;
 }
 
+// Live mode decodes a downscaled frame at most every SCAN_INTERVAL_MS and only fires
+// once the same payload has been read on STABLE_FRAMES consecutive attempts.
+const SCAN_INTERVAL_MS = 150;
+const STABLE_FRAMES = 3;
+const LIVE_SCAN_MAX_WIDTH = 640;
+
+type QRLocation = QRCode['location'];
+
+const ERROR_DISPLAY: Record<CameraErrorKind, { icon: string; title: string }> = {
+  'permission-denied': { icon: 'fa-user-lock', title: 'Permission Denied' },
+  'no-device': { icon: 'fa-video-slash', title: 'No Camera Found' },
+  'in-use': { icon: 'fa-lock', title: 'Camera In Use' },
+  unsupported: { icon: 'fa-ban', title: 'Camera Unavailable' },
+  unknown: { icon: 'fa-triangle-exclamation', title: 'Sensor Error' },
+};
+
 const Scanner: React.FC<ScannerProps> = ({ onScan, onDeepScan, onCancel }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Bumped whenever the camera is stopped, so an open that resolves after being superseded
+  // (another camera picked, capture taken, scanner closed) knows to release its stream.
+  const requestRef = useRef(0);
   const [cameraReady, setCameraReady] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<CameraError | null>(null);
   const [isCapturing, setIsCapturing] = useState(false);
   const [statusMessage, setStatusMessage] = useState("Initializing Sensors...");
+  const [liveMode, setLiveMode] = useState(true);
+  const [detection, setDetection] = useState<{ location: QRLocation; stableCount: number } | null>(null);
+  const liveCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const rafRef = useRef<number | null>(null);
+  const lastScanRef = useRef(0);
+  const stableRef = useRef<{ data: string; count: number } | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [capabilities, setCapabilities] = useState<CameraCapabilities | null>(null);
+  const [torchOn, setTorchOn] = useState(false);
+  const [zoom, setZoomLevel] = useState<number | null>(null);
+  // Where the last tap-to-focus landed, in percent of the viewfinder.
+  const [focusMark, setFocusMark] = useState<{ x: number; y: number; key: number } | null>(null);
 
   const stopCamera = useCallback(() => {
+    requestRef.current++;
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
@@ -26,26 +65,33 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, onDeepScan, onCancel }) => {
       videoRef.current.srcObject = null;
     }
     setCameraReady(false);
+    setCapabilities(null);
+    setTorchOn(false);
   }, []);
 
-  const startCamera = useCallback(async () => {
+  const startCamera = useCallback(async (preferredId: string | null) => {
     setError(null);
     setCameraReady(false);
     setStatusMessage("Requesting Hardware Access...");
     stopCamera();
+    const request = requestRef.current;
 
     try {
-      const constraints: MediaStreamConstraints = {
-        video: {
-          facingMode: 'environment',
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-        }
-      };
-
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
+      const stream = await openCamera(preferredId);
+      if (request !== requestRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       streamRef.current = stream;
 
+      const track = stream.getVideoTracks()[0];
+      const caps = readCapabilities(track);
+      setDeviceId(track.getSettings().deviceId || null);
+      setCapabilities(caps);
+      setZoomLevel(caps.zoom?.value ?? null);
+      // Device labels are only exposed once permission has been granted.
+      listCameras().then(setCameras).catch(() => setCameras([]));
+
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         videoRef.current.setAttribute('playsinline', 'true');
@@ -55,50 +101,177 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, onDeepScan, onCancel }) => {
             setCameraReady(true);
             setStatusMessage("Feed Operational");
           }).catch(() => {
-            setError("Playback blocked by browser policy.");
+            setError(new CameraError('unknown', "Playback blocked by browser policy."));
           });
         };
       }
-    } catch (err: any) {
-      setError("Camera access denied. Please verify system permissions.");
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      setError(toCameraError(err));
       setCameraReady(false);
+      listCameras().then(setCameras).catch(() => setCameras([]));
     }
   }, [stopCamera]);
 
   useEffect(() => {
-    startCamera();
+    startCamera(loadPreferredCamera());
     return () => stopCamera();
   }, [startCamera, stopCamera]);
 
-  const handleCapture = () => {
-    if (!videoRef.current || !canvasRef.current || !cameraReady) return;
+  const activeTrack = () => streamRef.current?.getVideoTracks()[0] || null;
 
-    setIsCapturing(true);
+  const selectCamera = (id: string) => {
+    savePreferredCamera(id);
+    startCamera(id);
+  };
+
+  const toggleTorch = () => {
+    const track = activeTrack();
+    if (!track) return;
+    const next = !torchOn;
+    setTorch(track, next)
+      .then(() => setTorchOn(next))
+      .catch(() => setCapabilities(prev => prev && { ...prev, torch: false }));
+  };
+
+  const changeZoom = (value: number) => {
+    const track = activeTrack();
+    if (!track) return;
+    setZoomLevel(value);
+    setZoom(track, value).catch(() => {});
+  };
+
+  // Maps the tap from the object-cover viewfinder back to 0..1 coordinates of the full frame.
+  const handleTapToFocus = (e: React.MouseEvent<HTMLDivElement>) => {
+    const track = activeTrack();
+    const video = videoRef.current;
+    if (!cameraReady || !capabilities?.focus || !track || !video?.videoWidth) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const tapX = e.clientX - rect.left;
+    const tapY = e.clientY - rect.top;
+    const scale = Math.max(rect.width / video.videoWidth, rect.height / video.videoHeight);
+    const clamp = (n: number) => Math.min(1, Math.max(0, n));
+    const x = clamp((tapX - (rect.width - video.videoWidth * scale) / 2) / scale / video.videoWidth);
+    const y = clamp((tapY - (rect.height - video.videoHeight * scale) / 2) / scale / video.videoHeight);
+
+    setFocusMark({ x: (tapX / rect.width) * 100, y: (tapY / rect.height) * 100, key: Date.now() });
+    focusAt(track, x, y, capabilities.focus).catch(() => {});
+  };
+
+  const scanLiveFrame = useCallback((): DetectedCode | null => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return null;
+
+    const scale = Math.min(1, LIVE_SCAN_MAX_WIDTH / video.videoWidth);
+    const width = Math.round(video.videoWidth * scale);
+    const height = Math.round(video.videoHeight * scale);
+    const canvas = liveCanvasRef.current || (liveCanvasRef.current = document.createElement('canvas'));
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+
+    context.drawImage(video, 0, 0, width, height);
+    const imageData = context.getImageData(0, 0, width, height);
+    const code = jsQR(imageData.data, width, height, { inversionAttempts: 'dontInvert' });
+
+    if (!code || !code.data) {
+      stableRef.current = null;
+      setDetection(null);
+      return null;
+    }
+
+    // Map corners from the downscaled frame back to native video coordinates for the overlay.
+    const location = Object.fromEntries(
+      Object.entries(code.location).map(([key, point]) => [key, point && { x: point.x / scale, y: point.y / scale }])
+    ) as QRLocation;
+
+    const previous = stableRef.current;
+    const count = previous && previous.data === code.data ? previous.count + 1 : 1;
+    stableRef.current = { data: code.data, count };
+    setDetection({ location, stableCount: count });
+    if (count < STABLE_FRAMES) return null;
+    return {
+      data: code.data,
+      corners: [location.topLeftCorner, location.topRightCorner, location.bottomRightCorner, location.bottomLeftCorner],
+    };
+  }, []);
+
+  const captureFrame = useCallback((): { imageData: ImageData; base64: string } | null => {
     const canvas = canvasRef.current;
     const video = videoRef.current;
+    if (!canvas || !video) return null;
     const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return {
+      imageData: context.getImageData(0, 0, canvas.width, canvas.height),
+      base64: canvas.toDataURL('image/png'),
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!liveMode || !cameraReady || isCapturing) return;
+
+    const tick = (now: number) => {
+      if (now - lastScanRef.current >= SCAN_INTERVAL_MS) {
+        lastScanRef.current = now;
+        const stableCode = scanLiveFrame();
+        const frame = stableCode && captureFrame();
+        if (stableCode && frame) {
+          rafRef.current = null;
+          setIsCapturing(true);
+          stopCamera();
+          // Re-scan the full-resolution frame for any neighbouring codes; keep the live hit if that misses it.
+          const codes = detectAllCodes(frame.imageData);
+          onScan(codes.some(c => c.data === stableCode.data) ? codes : [stableCode, ...codes], frame.base64);
+          return;
+        }
+      }
+      rafRef.current = requestAnimationFrame(tick);
+    };
+    rafRef.current = requestAnimationFrame(tick);
 
-    if (context) {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      context.drawImage(video, 0, 0, canvas.width, canvas.height);
-      
-      const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-      const code = jsQR(imageData.data, imageData.width, imageData.height);
-      const base64 = canvas.toDataURL('image/png');
+    return () => {
+      if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
+      rafRef.current = null;
+      stableRef.current = null;
+      setDetection(null);
+    };
+  }, [liveMode, cameraReady, isCapturing, scanLiveFrame, captureFrame, stopCamera, onScan]);
+
+  const handleCapture = () => {
+    if (!cameraReady) return;
+
+    setIsCapturing(true);
+    // A frame can be missing while the video is still starting; the button must come back.
+    try {
+      const frame = captureFrame();
+      if (!frame) return;
+
+      const codes = detectAllCodes(frame.imageData);
 
       stopCamera();
-      if (code && code.data) {
-        onScan(code.data);
+      if (codes.length > 0) {
+        onScan(codes, frame.base64);
       } else {
-        onDeepScan(base64);
+        onDeepScan(frame.base64);
       }
+    } finally {
+      setIsCapturing(false);
     }
   };
 
   return (
     <div className="flex flex-col items-center animate-in fade-in zoom-in-95 duration-700 max-w-3xl mx-auto w-full px-4">
-      <div className="w-full aspect-video bg-slate-950 rounded-[3rem] overflow-hidden relative border-8 border-slate-800 shadow-[0_30px_60px_-15px_rgba(0,0,0,0.8)] flex items-center justify-center group">
+      <div
+        onClick={handleTapToFocus}
+        className={`w-full aspect-video bg-slate-950 rounded-[3rem] overflow-hidden relative border-8 border-slate-800 shadow-[0_30px_60px_-15px_rgba(0,0,0,0.8)] flex items-center justify-center group ${cameraReady && capabilities?.focus ? 'cursor-crosshair' : ''}`}
+      >
         
         {/* Scanning Laser Animation */}
         {cameraReady && (
@@ -117,12 +290,12 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, onDeepScan, onCancel }) => {
         {error && (
           <div className="absolute inset-0 flex flex-col items-center justify-center p-12 text-center bg-slate-900/98 z-40 backdrop-blur-xl">
             <div className="bg-rose-500/10 p-6 rounded-3xl mb-6">
-              <i className="fas fa-video-slash text-rose-500 text-4xl"></i>
+              <i className={`fas ${ERROR_DISPLAY[error.kind].icon} text-rose-500 text-4xl`}></i>
             </div>
-            <h3 className="text-3xl font-black text-white mb-4 italic uppercase tracking-tighter">Sensor Error</h3>
-            <p className="text-sm text-slate-400 mb-10 leading-relaxed font-medium">{error}</p>
+            <h3 className="text-3xl font-black text-white mb-4 italic uppercase tracking-tighter">{ERROR_DISPLAY[error.kind].title}</h3>
+            <p className="text-sm text-slate-400 mb-10 leading-relaxed font-medium">{error.message}</p>
             <button 
-              onClick={startCamera} 
+              onClick={() => startCamera(loadPreferredCamera())} 
               className="px-10 py-4 bg-slate-800 hover:bg-slate-700 text-white rounded-2xl font-black uppercase tracking-widest transition-all border border-slate-700 active:scale-95"
             >
               Retry Handshake
@@ -139,6 +312,45 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, onDeepScan, onCancel }) => {
         />
         <canvas ref={canvasRef} className="hidden" />
 
+        {focusMark && (
+          <div
+            key={focusMark.key}
+            onAnimationEnd={() => setFocusMark(null)}
+            className="absolute z-30 w-16 h-16 -ml-8 -mt-8 border-2 border-amber-400 rounded-full pointer-events-none animate-focus-ring"
+            style={{ left: `${focusMark.x}%`, top: `${focusMark.y}%` }}
+          ></div>
+        )}
+
+        {/* Live detection outline, in native video coordinates; "slice" mirrors object-cover */}
+        {cameraReady && liveMode && detection && videoRef.current && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none z-20"
+            viewBox={`0 0 ${videoRef.current.videoWidth} ${videoRef.current.videoHeight}`}
+            preserveAspectRatio="xMidYMid slice"
+          >
+            <polygon
+              points={[
+                detection.location.topLeftCorner,
+                detection.location.topRightCorner,
+                detection.location.bottomRightCorner,
+                detection.location.bottomLeftCorner,
+              ].map(p => `${p.x},${p.y}`).join(' ')}
+              className={detection.stableCount >= STABLE_FRAMES ? 'fill-emerald-400/20 stroke-emerald-400' : 'fill-blue-500/10 stroke-blue-500'}
+              strokeWidth={6}
+              strokeLinejoin="round"
+            />
+          </svg>
+        )}
+
+        {cameraReady && liveMode && (
+          <div className="absolute top-6 left-1/2 -translate-x-1/2 z-30 pointer-events-none bg-slate-950/70 border border-slate-700/50 px-4 py-1.5 rounded-full flex items-center space-x-2">
+            <div className={`w-2 h-2 rounded-full ${detection ? 'bg-emerald-400' : 'bg-blue-500 animate-pulse'}`}></div>
+            <span className="text-[9px] font-black uppercase tracking-[0.3em] text-slate-300">
+              {detection ? `Locking ${Math.min(detection.stableCount, STABLE_FRAMES)}/${STABLE_FRAMES}` : 'Auto-Detect Active'}
+            </span>
+          </div>
+        )}
+
         {/* HUD Viewfinder Overlay */}
         {cameraReady && (
           <div className="absolute inset-0 pointer-events-none z-10 flex items-center justify-center p-10">
@@ -155,6 +367,51 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, onDeepScan, onCancel }) => {
         )}
       </div>
 
+      {(cameras.length > 1 || capabilities?.torch || capabilities?.zoom) && (
+        <div className="mt-8 flex flex-col sm:flex-row items-center gap-4 w-full">
+          {cameras.length > 1 && (
+            <select
+              value={deviceId || ''}
+              onChange={e => selectCamera(e.target.value)}
+              className="w-full sm:w-auto sm:max-w-xs px-4 py-3 bg-slate-900 border border-slate-800 rounded-xl text-xs font-bold text-slate-300 focus:outline-none focus:border-blue-600"
+            >
+              {!deviceId && <option value="">Select camera</option>}
+              {cameras.map((camera, i) => (
+                <option key={camera.deviceId} value={camera.deviceId}>{camera.label || `Camera ${i + 1}`}</option>
+              ))}
+            </select>
+          )}
+          {capabilities?.torch && (
+            <button
+              onClick={toggleTorch}
+              className={`w-full sm:w-auto px-5 py-3 rounded-xl font-black uppercase tracking-widest text-[10px] transition-all border flex items-center justify-center space-x-2 ${torchOn ? 'bg-amber-500/10 text-amber-400 border-amber-500/30' : 'bg-slate-800 text-slate-400 border-slate-700 hover:bg-slate-700'}`}
+            >
+              <i className="fas fa-lightbulb"></i>
+              <span>Torch {torchOn ? 'On' : 'Off'}</span>
+            </button>
+          )}
+          {capabilities?.zoom && zoom !== null && (
+            <label className="flex-1 w-full flex items-center space-x-3">
+              <i className="fas fa-magnifying-glass text-slate-500 text-xs"></i>
+              <input
+                type="range"
+                min={capabilities.zoom.min}
+                max={capabilities.zoom.max}
+                step={capabilities.zoom.step}
+                value={zoom}
+                onChange={e => changeZoom(Number(e.target.value))}
+                className="flex-1 accent-blue-600"
+              />
+              <span className="text-[10px] font-black text-slate-400 font-mono w-10 text-right">{zoom.toFixed(1)}×</span>
+            </label>
+          )}
+        </div>
+      )}
+
+      {cameraReady && capabilities?.focus && (
+        <p className="mt-4 text-[10px] font-black uppercase tracking-widest text-slate-600">Tap the feed to focus</p>
+      )}
+
       <div className="mt-12 flex flex-col sm:flex-row items-center gap-6 w-full">
         <button 
           onClick={onCancel} 
@@ -162,6 +419,14 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, onDeepScan, onCancel }) => {
         >
           Cancel
         </button>
+        <button
+          onClick={() => setLiveMode(prev => !prev)}
+          disabled={!cameraReady}
+          className={`w-full sm:w-auto px-8 py-5 rounded-3xl font-black uppercase tracking-widest text-xs transition-all border flex items-center justify-center space-x-3 disabled:opacity-50 ${liveMode ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30' : 'bg-slate-800 text-slate-400 border-slate-700 hover:bg-slate-700'}`}
+        >
+          <i className={`fas ${liveMode ? 'fa-eye' : 'fa-eye-slash'}`}></i>
+          <span>Auto-Detect {liveMode ? 'On' : 'Off'}</span>
+        </button>
         <button 
           onClick={handleCapture}
           disabled={!cameraReady || isCapturing}
@@ -182,6 +447,14 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, onDeepScan, onCancel }) => {
         .animate-scan-line {
           animation: scan-line 2.5s linear infinite;
         }
+        @keyframes focus-ring {
+          0% { transform: scale(1.6); opacity: 0; }
+          30% { transform: scale(1); opacity: 1; }
+          100% { transform: scale(1); opacity: 0; }
+        }
+        .animate-focus-ring {
+          animation: focus-ring 0.9s ease-out forwards;
+        }
       `}} />
     </div>
   );
@@ -0,0 +1,235 @@
+import React from 'react';
+import { AnalyzerId, AnalyzerSettings } from '../types';
+import { ANALYZER_IDS, createAnalyzers } from '../services/analyzerService';
+import { DEFAULT_SETTINGS } from '../services/settingsService';
+import { DEFAULT_GEMINI_MODEL, supportsGrounding } from '../services/geminiService';
+
+interface SettingsPanelProps {
+  settings: AnalyzerSettings;
+  onChange: (settings: AnalyzerSettings) => void;
+}
+
+const INPUT_CLASS = 'w-full px-4 py-3 bg-slate-950/60 border border-slate-800 rounded-xl text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-600';
+const LABEL_CLASS = 'block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  const analyzers = createAnalyzers(settings);
+
+  const update = (patch: Partial<AnalyzerSettings>) => onChange({ ...settings, ...patch });
+
+  const renderConfig = (id: AnalyzerId) => {
+    if (id === 'gemini') {
+      return (
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label className={LABEL_CLASS}>API Key</label>
+            <input
+              type="password"
+              value={settings.gemini.apiKey}
+              placeholder={process.env.API_KEY ? 'Using build-time key' : 'Not configured'}
+              onChange={e => update({ gemini: { ...settings.gemini, apiKey: e.target.value } })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Model</label>
+            <input
+              value={settings.gemini.model}
+              onChange={e => update({ gemini: { ...settings.gemini, model: e.target.value } })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <label className="sm:col-span-2 flex items-center space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.gemini.grounding}
+              onChange={e => update({ gemini: { ...settings.gemini, grounding: e.target.checked } })}
+              className="accent-blue-600 w-4 h-4"
+            />
+            <span className="text-xs text-slate-400">
+              Verify with Google Search and cite sources
+              {settings.gemini.grounding && !supportsGrounding(settings.gemini.model || DEFAULT_GEMINI_MODEL) && (
+                <span className="text-amber-400"> · not supported by this model, runs ungrounded</span>
+              )}
+            </span>
+          </label>
+        </div>
+      );
+    }
+    if (id === 'openai') {
+      return (
+        <div className="grid sm:grid-cols-3 gap-4">
+          <div className="sm:col-span-3">
+            <label className={LABEL_CLASS}>Base URL</label>
+            <input
+              value={settings.openai.baseUrl}
+              placeholder="http://localhost:8080/v1"
+              onChange={e => update({ openai: { ...settings.openai, baseUrl: e.target.value } })}
+              className={`${INPUT_CLASS} font-mono`}
+            />
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Model</label>
+            <input
+              value={settings.openai.model}
+              placeholder="Required"
+              onChange={e => update({ openai: { ...settings.openai, model: e.target.value } })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label className={LABEL_CLASS}>API Key (optional)</label>
+            <input
+              type="password"
+              value={settings.openai.apiKey}
+              onChange={e => update({ openai: { ...settings.openai, apiKey: e.target.value } })}
+              className={INPUT_CLASS}
+            />
+          </div>
+        </div>
+      );
+    }
+    return <p className="text-xs text-slate-500">Runs entirely in the browser. No configuration required.</p>;
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in duration-700 pb-20">
+      <div className="flex items-end justify-between">
+        <h2 className="text-5xl font-black text-white italic uppercase tracking-tighter">Analyzer <span className="text-blue-600">Settings</span></h2>
+        <button
+          onClick={() => onChange(DEFAULT_SETTINGS)}
+          className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 hover:text-rose-400 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex gap-3">
+        {(['single', 'combined'] as const).map(mode => (
+          <button
+            key={mode}
+            onClick={() => update({ mode })}
+            className={`flex-1 px-5 py-4 rounded-2xl border text-xs font-black uppercase tracking-widest transition-all ${settings.mode === mode ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900/60 border-slate-800 text-slate-400 hover:border-slate-700'}`}
+          >
+            {mode === 'single' ? 'Single Provider' : 'Combined Verdict'}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 -mt-4">
+        {settings.mode === 'single'
+          ? 'The selected provider analyzes every payload. The local heuristics take over if it is unavailable or fails.'
+          : 'Every enabled provider analyzes the payload. Scores and probabilities are averaged by weight and disagreements are shown with the verdict.'}
+      </p>
+
+      <div className="space-y-4">
+        {ANALYZER_IDS.map(id => {
+          const analyzer = analyzers[id];
+          const active = settings.mode === 'single' ? settings.provider === id : settings.enabled[id];
+          return (
+            <div key={id} className={`bg-slate-900/40 border rounded-[2rem] p-6 space-y-5 transition-colors ${active ? 'border-blue-600/50' : 'border-slate-800'}`}>
+              <div className="flex items-center justify-between gap-4">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type={settings.mode === 'single' ? 'radio' : 'checkbox'}
+                    name="provider"
+                    checked={active}
+                    onChange={e => settings.mode === 'single'
+                      ? update({ provider: id })
+                      : update({ enabled: { ...settings.enabled, [id]: e.target.checked } })}
+                    className="accent-blue-600 w-4 h-4"
+                  />
+                  <span className="text-sm font-black uppercase tracking-tight text-white">{analyzer.label}</span>
+                </label>
+                <span className={`text-[10px] font-black uppercase tracking-widest ${analyzer.isAvailable() ? 'text-emerald-400' : 'text-slate-600'}`}>
+                  {analyzer.isAvailable() ? 'Ready' : 'Needs configuration'}
+                </span>
+              </div>
+              {renderConfig(id)}
+              {settings.mode === 'combined' && (
+                <div className="flex items-center gap-4">
+                  <label className="text-[10px] font-black uppercase tracking-widest text-slate-500 w-16">Weight</label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={3}
+                    step={0.5}
+                    value={settings.weights[id]}
+                    disabled={!settings.enabled[id]}
+                    onChange={e => update({ weights: { ...settings.weights, [id]: Number(e.target.value) } })}
+                    className="flex-1 accent-blue-600 disabled:opacity-40"
+                  />
+                  <span className="font-mono text-xs text-slate-300 w-8 text-right">{settings.weights[id]}</span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-slate-900/40 border border-slate-800 rounded-[2rem] p-6 space-y-5">
+        <div className="flex items-center justify-between gap-4">
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.redirects.follow}
+              onChange={e => update({ redirects: { ...settings.redirects, follow: e.target.checked } })}
+              className="accent-blue-600 w-4 h-4"
+            />
+            <span className="text-sm font-black uppercase tracking-tight text-white">Follow HTTP Redirects</span>
+          </label>
+          <span className={`text-[10px] font-black uppercase tracking-widest ${settings.redirects.follow && settings.redirects.proxyUrl ? 'text-emerald-400' : 'text-slate-600'}`}>
+            {settings.redirects.follow && settings.redirects.proxyUrl ? 'Ready' : 'Unwrap only'}
+          </span>
+        </div>
+        <p className="text-xs text-slate-500">
+          Safe Links, Google, URL Defense and tracking wrappers are always unwrapped offline. Following 30x and meta-refresh hops requires a proxy that fetches without following redirects and returns {'{ status, headers, body }'} as JSON.
+        </p>
+        <div className="grid sm:grid-cols-4 gap-4">
+          <div className="sm:col-span-3">
+            <label className={LABEL_CLASS}>Proxy URL</label>
+            <input
+              value={settings.redirects.proxyUrl}
+              placeholder="http://localhost:8787/resolve"
+              onChange={e => update({ redirects: { ...settings.redirects, proxyUrl: e.target.value } })}
+              className={`${INPUT_CLASS} font-mono`}
+            />
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Max Hops</label>
+            <input
+              type="number"
+              min={1}
+              max={15}
+              value={settings.redirects.maxHops}
+              onChange={e => update({ redirects: { ...settings.redirects, maxHops: Math.max(1, Math.min(15, Number(e.target.value) || 1)) } })}
+              className={INPUT_CLASS}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-slate-900/40 border border-slate-800 rounded-[2rem] p-6 space-y-5">
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm font-black uppercase tracking-tight text-white">Safe Preview</span>
+          <span className={`text-[10px] font-black uppercase tracking-widest ${settings.preview.proxyUrl ? 'text-emerald-400' : 'text-slate-600'}`}>
+            {settings.preview.proxyUrl ? 'Ready' : 'Disabled'}
+          </span>
+        </div>
+        <p className="text-xs text-slate-500">
+          Fetches a destination page for inspection without opening it. Uses the same proxy contract as redirect resolution; the page is parsed inertly and only a text summary is shown.
+        </p>
+        <div>
+          <label className={LABEL_CLASS}>Proxy URL</label>
+          <input
+            value={settings.preview.proxyUrl}
+            placeholder="http://localhost:8787/resolve"
+            onChange={e => update({ preview: { proxyUrl: e.target.value } })}
+            className={`${INPUT_CLASS} font-mono`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
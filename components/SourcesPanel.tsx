@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { GroundingSource } from '../types';
+
+interface SourcesPanelProps {
+  sources: GroundingSource[];
+}
+
+const webUrl = (uri: string): URL | null => {
+  try {
+    const url = new URL(uri);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+// Citations can point at the very pages being reported, so they render as text until the
+// analyst explicitly enables links, and even then open without a referrer or opener.
+const SourcesPanel: React.FC<SourcesPanelProps> = ({ sources }) => {
+  const [linksEnabled, setLinksEnabled] = useState(false);
+
+  return (
+    <div className="space-y-5">
+      <label className="flex items-center space-x-3 cursor-pointer w-fit">
+        <input
+          type="checkbox"
+          checked={linksEnabled}
+          onChange={e => setLinksEnabled(e.target.checked)}
+          className="accent-amber-500 w-4 h-4"
+        />
+        <span className={`text-[10px] font-black uppercase tracking-widest ${linksEnabled ? 'text-amber-400' : 'text-slate-500'}`}>
+          {linksEnabled ? 'Links enabled · open with care' : 'Enable links'}
+        </span>
+      </label>
+      <ul className="space-y-4">
+        {sources.map((source, i) => {
+          const url = webUrl(source.uri);
+          return (
+            <li key={i} className="flex items-start gap-4">
+              <span className="w-6 h-6 rounded-lg bg-slate-800 text-slate-400 text-[10px] font-black flex items-center justify-center flex-shrink-0">{i + 1}</span>
+              <div className="min-w-0 space-y-1">
+                <p className="text-xs font-bold text-slate-300">
+                  {source.title}
+                  {url && <span className="text-slate-600 font-mono font-normal"> · {url.hostname}</span>}
+                </p>
+                {linksEnabled && url ? (
+                  <a href={url.href} target="_blank" rel="noopener noreferrer nofollow" referrerPolicy="no-referrer" className="font-mono text-[11px] text-amber-400 hover:text-amber-300 underline break-all">
+                    {source.uri}
+                  </a>
+                ) : (
+                  <p className="font-mono text-[11px] text-slate-500 break-all select-all">{source.uri}</p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SourcesPanel;
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAnalyzers, mergeProbabilities, runAnalyzers } from './analyzerService';
+import { GeminiTransport, createGeminiAnalyzer } from './geminiService';
+import { FetchLike, createOpenAiAnalyzer } from './openAiCompatibleService';
+import { AnalyzerError } from './responseValidator';
+import { DEFAULT_SETTINGS } from './settingsService';
+import { AnalyzerSettings } from '../types';
+
+const PAYLOAD = 'https://example.com/welcome';
+
+const verdict = (riskScore: number, malicious: number, fake: number, authentic: number) => JSON.stringify({
+  riskScore,
+  explanation: `Scored ${riskScore}.`,
+  recommendations: [],
+  probabilities: { malicious, fake, authentic },
+  indicators: [],
+});
+
+const noSleep = () => Promise.resolve();
+
+const geminiReturning = (text: string): GeminiTransport => vi.fn(async () => ({ text }));
+
+const openAiReturning = (content: string): FetchLike =>
+  vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 }));
+
+const settingsFor = (overrides: Partial<AnalyzerSettings>): AnalyzerSettings => ({
+  ...DEFAULT_SETTINGS,
+  openai: { ...DEFAULT_SETTINGS.openai, model: 'local-model' },
+  ...overrides,
+});
+
+const analyzersFor = (settings: AnalyzerSettings, transport: GeminiTransport, fetchImpl: FetchLike) => ({
+  ...createAnalyzers(settings),
+  gemini: createGeminiAnalyzer(settings.gemini, transport, { sleep: noSleep }),
+  openai: createOpenAiAnalyzer(settings.openai, fetchImpl, { sleep: noSleep }),
+});
+
+describe('runAnalyzers in single mode', () => {
+  it('uses only the selected provider', async () => {
+    const settings = settingsFor({ mode: 'single', provider: 'gemini' });
+    const transport = geminiReturning(verdict(30, 20, 10, 70));
+    const fetchImpl = openAiReturning(verdict(90, 90, 5, 5));
+    const result = await runAnalyzers(settings, PAYLOAD, analyzersFor(settings, transport, fetchImpl));
+    expect(result.riskScore).toBe(30);
+    expect(result.probabilities).toEqual({ malicious: 20, fake: 10, authentic: 70 });
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it('falls back to local heuristics when the provider throws an AnalyzerError', async () => {
+    const settings = settingsFor({ mode: 'single', provider: 'openai' });
+    const fetchImpl: FetchLike = vi.fn(async () => new Response('denied', { status: 401 }));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await runAnalyzers(settings, PAYLOAD, analyzersFor(settings, geminiReturning(''), fetchImpl));
+    warn.mockRestore();
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(result.providers?.map(p => p.provider)).toEqual(['openai', 'local']);
+    expect(result.providers?.[0].error).toBeTruthy();
+    expect(result.providers?.[1].error).toBeUndefined();
+  });
+});
+
+describe('runAnalyzers in combined mode', () => {
+  const combined = settingsFor({
+    mode: 'combined',
+    enabled: { gemini: true, openai: true, local: false },
+    weights: { gemini: 3, openai: 1, local: 1 },
+  });
+
+  it('weights every enabled provider into one verdict', async () => {
+    const transport = geminiReturning(verdict(20, 20, 0, 80));
+    const fetchImpl = openAiReturning(verdict(60, 60, 20, 20));
+    const result = await runAnalyzers(combined, PAYLOAD, analyzersFor(combined, transport, fetchImpl));
+    expect(result.riskScore).toBe(30);
+    expect(result.probabilities).toEqual({ malicious: 30, fake: 5, authentic: 65 });
+    expect(result.providers?.map(p => [p.provider, p.riskScore])).toEqual([['gemini', 20], ['openai', 60]]);
+  });
+
+  it('reports a failed provider and merges the rest', async () => {
+    const transport: GeminiTransport = vi.fn(async () => {
+      throw new AnalyzerError('http', 'Gemini rejected the API key.', 403);
+    });
+    const fetchImpl = openAiReturning(verdict(60, 60, 20, 20));
+    const result = await runAnalyzers(combined, PAYLOAD, analyzersFor(combined, transport, fetchImpl));
+    expect(result.riskScore).toBe(60);
+    expect(result.providers).toEqual([
+      expect.objectContaining({ provider: 'openai', riskScore: 60 }),
+      expect.objectContaining({ provider: 'gemini', error: 'Gemini rejected the API key.' }),
+    ]);
+  });
+
+  it('falls back to local heuristics when every provider fails', async () => {
+    const transport: GeminiTransport = vi.fn(async () => {
+      throw new AnalyzerError('http', 'forbidden', 403);
+    });
+    const fetchImpl: FetchLike = vi.fn(async () => new Response('', { status: 404 }));
+    const result = await runAnalyzers(combined, PAYLOAD, analyzersFor(combined, transport, fetchImpl));
+    expect(result.providers?.map(p => p.provider)).toEqual(['local', 'gemini', 'openai']);
+    expect(result.providers?.filter(p => p.error)).toHaveLength(2);
+  });
+});
+
+describe('mergeProbabilities', () => {
+  it('averages by weight and keeps the total at 100', () => {
+    expect(mergeProbabilities([
+      { probabilities: { malicious: 10, fake: 20, authentic: 70 }, weight: 1 },
+      { probabilities: { malicious: 70, fake: 20, authentic: 10 }, weight: 1 },
+    ])).toEqual({ malicious: 40, fake: 20, authentic: 40 });
+    expect(mergeProbabilities([
+      { probabilities: { malicious: 33, fake: 33, authentic: 34 }, weight: 2 },
+      { probabilities: { malicious: 0, fake: 0, authentic: 100 }, weight: 1 },
+    ])).toEqual({ malicious: 22, fake: 22, authentic: 56 });
+  });
+});
+
+describe('createOpenAiAnalyzer', () => {
+  it.each([null, { choices: [] }, { choices: [{ message: { content: 42 } }] }])(
+    'rejects a completion body without string content: %j',
+    async body => {
+      const fetchImpl: FetchLike = vi.fn(async () => new Response(JSON.stringify(body), { status: 200 }));
+      const analyzer = createOpenAiAnalyzer(settingsFor({}).openai, fetchImpl, { sleep: noSleep });
+      await expect(analyzer.analyze(PAYLOAD)).rejects.toMatchObject({ kind: 'malformed' });
+    }
+  );
+});
@@ -0,0 +1,155 @@
+import { AnalysisResult, Analyzer, AnalyzerId, AnalyzerSettings, ProbabilityMap, ProviderVerdict } from '../types';
+import { analyzeLocally, getRiskLevel, withIndicators } from './heuristicsService';
+import { createGeminiAnalyzer } from './geminiService';
+import { createOpenAiAnalyzer } from './openAiCompatibleService';
+
+// Registry of analysis providers. Single mode runs the selected provider and falls back
+// to the local heuristics; combined mode runs every enabled provider and merges them.
+
+export const ANALYZER_IDS: AnalyzerId[] = ['gemini', 'openai', 'local'];
+
+// Verdicts further apart than this are surfaced as a disagreement.
+export const DISAGREEMENT_THRESHOLD = 25;
+
+export const localAnalyzer: Analyzer = {
+  id: 'local',
+  label: 'Local heuristics',
+  isAvailable: () => true,
+  analyze: async (content: string) => analyzeLocally(content),
+};
+
+export const createAnalyzers = (settings: AnalyzerSettings): Record<AnalyzerId, Analyzer> => ({
+  gemini: createGeminiAnalyzer(settings.gemini),
+  openai: createOpenAiAnalyzer(settings.openai),
+  local: localAnalyzer,
+});
+
+const toVerdict = (provider: AnalyzerId, result: AnalysisResult): ProviderVerdict => ({
+  provider,
+  riskScore: result.riskScore,
+  riskLevel: result.riskLevel,
+  probabilities: result.probabilities,
+});
+
+const failedVerdict = (provider: AnalyzerId, err: unknown): ProviderVerdict => ({
+  provider,
+  riskScore: 0,
+  riskLevel: getRiskLevel(0),
+  probabilities: { malicious: 0, fake: 0, authentic: 0 },
+  error: err instanceof Error ? err.message : String(err),
+});
+
+export const mergeProbabilities = (maps: Array<{ probabilities: ProbabilityMap; weight: number }>): ProbabilityMap => {
+  const total = maps.reduce((sum, m) => sum + m.weight, 0) || 1;
+  const avg = (key: keyof ProbabilityMap) =>
+    Math.round(maps.reduce((sum, m) => sum + m.probabilities[key] * m.weight, 0) / total);
+  const fake = avg('fake');
+  const authentic = Math.min(avg('authentic'), 100 - fake);
+  return { malicious: 100 - fake - authentic, fake, authentic };
+};
+
+export const hasDisagreement = (verdicts: ProviderVerdict[]): boolean => {
+  const scores = verdicts.filter(v => !v.error).map(v => v.riskScore);
+  return scores.length > 1 && Math.max(...scores) - Math.min(...scores) >= DISAGREEMENT_THRESHOLD;
+};
+
+// The riskiest provider supplies the narrative; scores and probabilities are weighted.
+export const mergeResults = (
+  results: Array<{ provider: AnalyzerId; result: AnalysisResult; weight: number }>,
+  failures: ProviderVerdict[] = []
+): AnalysisResult => {
+  const total = results.reduce((sum, r) => sum + r.weight, 0) || 1;
+  const riskScore = Math.round(results.reduce((sum, r) => sum + r.result.riskScore * r.weight, 0) / total);
+  const lead = results.reduce((a, b) => (b.result.riskScore > a.result.riskScore ? b : a)).result;
+
+  const seen = new Set<string>();
+  const indicators = results.flatMap(r => r.result.indicators).filter(ind => {
+    const key = `${ind.id}|${ind.match}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  const groundingSources = results.flatMap(r => r.result.groundingSources || []);
+
+  return {
+    ...lead,
+    riskScore,
+    riskLevel: getRiskLevel(riskScore),
+    probabilities: mergeProbabilities(results.map(r => ({ probabilities: r.result.probabilities, weight: r.weight }))),
+    indicators,
+    groundingSources: groundingSources.length ? groundingSources : undefined,
+    providers: [...results.map(r => toVerdict(r.provider, r.result)), ...failures],
+  };
+};
+
+// A model can be argued with by the payload it is judging, so its verdict never goes
+// below the deterministic heuristics and never drops an injection finding.
+export const applyLocalFloor = (result: AnalysisResult, local: AnalysisResult): AnalysisResult => {
+  const present = new Set(result.indicators.map(ind => ind.id));
+  const injection = local.indicators.filter(ind => ind.id === 'prompt-injection' && !present.has(ind.id));
+  const floored = withIndicators(result, injection);
+  if (floored.riskScore >= local.riskScore) return floored;
+
+  const missing = local.indicators.filter(ind => !present.has(ind.id) && !injection.includes(ind));
+  const authentic = Math.min(floored.probabilities.authentic, 100 - local.riskScore);
+  const fake = Math.min(floored.probabilities.fake, 100 - authentic);
+  return {
+    ...floored,
+    riskScore: local.riskScore,
+    riskLevel: local.riskLevel,
+    explanation: `${floored.explanation} The score was raised to the local heuristic floor of ${local.riskScore}.`,
+    probabilities: { malicious: 100 - authentic - fake, fake, authentic },
+    indicators: [...floored.indicators, ...missing],
+  };
+};
+
+const analyzeWithFloor = async (analyzer: Analyzer, content: string): Promise<AnalysisResult> => {
+  const local = analyzeLocally(content);
+  if (analyzer.id === 'local') return local;
+  return applyLocalFloor(await analyzer.analyze(content), local);
+};
+
+// Remote providers are skipped outright while the browser reports no network, rather than
+// sitting through retries before falling back to local heuristics.
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const runSingle = async (analyzer: Analyzer, content: string): Promise<AnalysisResult> => {
+  if (analyzer.id === 'local' || !analyzer.isAvailable() || isOffline()) {
+    return localAnalyzer.analyze(content);
+  }
+  try {
+    return await analyzeWithFloor(analyzer, content);
+  } catch (err) {
+    console.warn(`${analyzer.label} unavailable, using local heuristics.`, err);
+    const fallback = await localAnalyzer.analyze(content);
+    return { ...fallback, providers: [failedVerdict(analyzer.id, err), toVerdict('local', fallback)] };
+  }
+};
+
+const runCombined = async (settings: AnalyzerSettings, analyzers: Record<AnalyzerId, Analyzer>, content: string): Promise<AnalysisResult> => {
+  const selected = ANALYZER_IDS.filter(id =>
+    settings.enabled[id] && settings.weights[id] > 0 && analyzers[id].isAvailable() && (id === 'local' || !isOffline()));
+  const settled = await Promise.allSettled(selected.map(id => analyzeWithFloor(analyzers[id], content)));
+
+  const results: Array<{ provider: AnalyzerId; result: AnalysisResult; weight: number }> = [];
+  const failures: ProviderVerdict[] = [];
+  settled.forEach((outcome, i) => {
+    const provider = selected[i];
+    if (outcome.status === 'fulfilled') results.push({ provider, result: outcome.value, weight: settings.weights[provider] });
+    else failures.push(failedVerdict(provider, outcome.reason));
+  });
+
+  if (results.length === 0) {
+    results.push({ provider: 'local', result: await localAnalyzer.analyze(content), weight: 1 });
+  }
+  return mergeResults(results, failures);
+};
+
+export const runAnalyzers = (
+  settings: AnalyzerSettings,
+  content: string,
+  analyzers: Record<AnalyzerId, Analyzer> = createAnalyzers(settings)
+): Promise<AnalysisResult> =>
+  settings.mode === 'combined'
+    ? runCombined(settings, analyzers, content)
+    : runSingle(analyzers[settings.provider], content);
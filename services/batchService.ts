@@ -0,0 +1,95 @@
+import { BatchItem, CodeOrigin, CodeResult, DetectedCode } from '../types';
+import { detectAllCodes } from './multiCodeService';
+
+// Queue for analysing many uploaded images. Decoding is CPU-bound and analysis may hit
+// the network, so only BATCH_CONCURRENCY items are in flight at once across every batch.
+
+export const BATCH_CONCURRENCY = 3;
+
+export interface DecodedImage {
+  base64: string;
+  codes: DetectedCode[];
+}
+
+export interface BatchJob {
+  item: BatchItem;
+  // Resolves to the image as a data URL.
+  load: () => Promise<string>;
+}
+
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}.`));
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsDataURL(file);
+  });
+
+export const decodeImage = (base64: string): Promise<DetectedCode[]> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onerror = () => reject(new Error('The file is not a readable image.'));
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return reject(new Error('Canvas is unavailable in this browser.'));
+      ctx.drawImage(img, 0, 0);
+      resolve(detectAllCodes(ctx.getImageData(0, 0, canvas.width, canvas.height)));
+    };
+    img.src = base64;
+  });
+
+export const readImageFile = async (file: File): Promise<DecodedImage> => {
+  const base64 = await readFileAsDataUrl(file);
+  return { base64, codes: await decodeImage(base64) };
+};
+
+export const createBatchItem = (fileName: string, origin?: CodeOrigin): BatchItem => ({
+  id: crypto.randomUUID(),
+  fileName,
+  origin,
+  status: 'queued',
+  base64: null,
+  results: [],
+});
+
+const pending: Array<() => Promise<void>> = [];
+let active = 0;
+
+const pump = () => {
+  while (active < BATCH_CONCURRENCY && pending.length > 0) {
+    const task = pending.shift()!;
+    active++;
+    task().finally(() => {
+      active--;
+      pump();
+    });
+  }
+};
+
+export const enqueueBatch = (
+  jobs: BatchJob[],
+  analyzeCodes: (codes: DetectedCode[], base64: string) => Promise<CodeResult[]>,
+  onUpdate: (id: string, patch: Partial<BatchItem>) => void
+) => {
+  for (const { item, load } of jobs) {
+    pending.push(async () => {
+      try {
+        onUpdate(item.id, { status: 'decoding' });
+        const base64 = await load();
+        const codes = (await decodeImage(base64)).map(code => ({ ...code, origin: item.origin }));
+        if (codes.length === 0) {
+          onUpdate(item.id, { status: 'no-code', base64 });
+          return;
+        }
+        onUpdate(item.id, { status: 'analyzing', base64 });
+        onUpdate(item.id, { status: 'done', results: await analyzeCodes(codes, base64) });
+      } catch (err: any) {
+        onUpdate(item.id, { status: 'error', error: err.message || 'Analysis failed.' });
+      }
+    });
+  }
+  pump();
+};
@@ -0,0 +1,142 @@
+// Camera selection and the optional controls some tracks expose (torch, zoom, focus point).
+// Those controls are not in the standard TypeScript DOM types yet, hence the local
+// interfaces; every one of them is feature-detected from getCapabilities() before use.
+
+const STORAGE_KEY = 'qrshield.camera-device';
+
+export type CameraErrorKind = 'permission-denied' | 'no-device' | 'in-use' | 'unsupported' | 'unknown';
+
+export class CameraError extends Error {
+  constructor(
+    readonly kind: CameraErrorKind,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CameraError';
+  }
+}
+
+export interface CameraCapabilities {
+  torch: boolean;
+  zoom: { min: number; max: number; step: number; value: number } | null;
+  // Tap-to-focus: either a focus point can be set, or a single-shot refocus can be triggered.
+  focus: 'point' | 'refocus' | null;
+}
+
+interface RangeCapability {
+  min: number;
+  max: number;
+  step?: number;
+}
+
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: RangeCapability;
+  focusMode?: string[];
+  pointsOfInterest?: unknown;
+}
+
+interface ExtendedConstraintSet extends MediaTrackConstraintSet {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+  pointsOfInterest?: Array<{ x: number; y: number }>;
+}
+
+export const loadPreferredCamera = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const savePreferredCamera = (deviceId: string | null) => {
+  try {
+    if (deviceId) localStorage.setItem(STORAGE_KEY, deviceId);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Private browsing can refuse storage; the camera still works, it just is not remembered.
+  }
+};
+
+// getUserMedia rejects with DOMExceptions whose names differ slightly between browsers.
+export const toCameraError = (err: unknown): CameraError => {
+  if (err instanceof CameraError) return err;
+  const name = (err as { name?: string })?.name;
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return new CameraError('permission-denied', 'Camera permission was denied. Allow camera access for this site in the browser settings, then retry.');
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return new CameraError('no-device', 'No camera was found. Connect a camera or pick another one, then retry.');
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return new CameraError('in-use', 'The camera is busy. Close other apps or tabs using it, then retry.');
+    default:
+      return new CameraError('unknown', `The camera could not be started${err instanceof Error && err.message ? `: ${err.message}` : '.'}`);
+  }
+};
+
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput' && d.deviceId);
+};
+
+const videoConstraints = (deviceId: string | null): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'environment' }),
+  width: { ideal: 1920 },
+  height: { ideal: 1080 },
+});
+
+// Opens the remembered camera, falling back to the default rear camera when it has gone away.
+export const openCamera = async (deviceId: string | null): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new CameraError('unsupported', window.isSecureContext
+      ? 'This browser cannot access cameras.'
+      : 'Camera access needs a secure (HTTPS) connection.');
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: videoConstraints(deviceId) });
+  } catch (err) {
+    const error = toCameraError(err);
+    if (!deviceId || error.kind !== 'no-device') throw error;
+    savePreferredCamera(null);
+    try {
+      return await navigator.mediaDevices.getUserMedia({ video: videoConstraints(null) });
+    } catch (fallbackErr) {
+      throw toCameraError(fallbackErr);
+    }
+  }
+};
+
+export const readCapabilities = (track: MediaStreamTrack): CameraCapabilities => {
+  const caps = (track.getCapabilities?.() || {}) as ExtendedCapabilities;
+  const settings = track.getSettings() as MediaTrackSettings & { zoom?: number };
+  const zoom = caps.zoom && caps.zoom.max > caps.zoom.min
+    ? { min: caps.zoom.min, max: caps.zoom.max, step: caps.zoom.step || 0.1, value: settings.zoom ?? caps.zoom.min }
+    : null;
+  const focus = caps.pointsOfInterest !== undefined ? 'point' : caps.focusMode?.includes('single-shot') ? 'refocus' : null;
+  return { torch: caps.torch === true, zoom, focus };
+};
+
+const applyAdvanced = (track: MediaStreamTrack, constraints: ExtendedConstraintSet) =>
+  track.applyConstraints({ advanced: [constraints as MediaTrackConstraintSet] });
+
+export const setTorch = (track: MediaStreamTrack, on: boolean) => applyAdvanced(track, { torch: on });
+
+export const setZoom = (track: MediaStreamTrack, zoom: number) => applyAdvanced(track, { zoom });
+
+// x and y are 0..1 across the full video frame.
+export const focusAt = async (track: MediaStreamTrack, x: number, y: number, mode: NonNullable<CameraCapabilities['focus']>) => {
+  if (mode === 'point') {
+    await applyAdvanced(track, { pointsOfInterest: [{ x, y }], focusMode: 'single-shot' });
+  } else {
+    await applyAdvanced(track, { focusMode: 'single-shot' });
+  }
+};
@@ -0,0 +1,181 @@
+import jsQR, { QRCode } from 'jsqr';
+
+// Retry pipeline for images the plain jsQR pass could not decode. Each attempt pairs a
+// geometric variant (rotation, crop, upscale) with a photometric one (contrast, threshold,
+// inversion) and stops at the first combination that decodes.
+
+export interface DeepScanResult {
+  code: QRCode;
+  transform: string;
+}
+
+export type DeepScanProgress = (step: string, attempt: number, total: number) => void;
+
+interface GeometricVariant {
+  label: string;
+  rotate?: number;
+  // Crop rectangle as fractions of the source image.
+  crop?: [number, number, number, number];
+  scale?: number;
+}
+
+interface PhotometricVariant {
+  label: string;
+  apply: (gray: Uint8ClampedArray, width: number, height: number) => Uint8ClampedArray;
+}
+
+const MAX_WORKING_SIZE = 1024;
+const SMALL_IMAGE_SIZE = 600;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The captured image could not be loaded for deep scan.'));
+    img.src = src;
+  });
+
+const toGrayscale = (data: Uint8ClampedArray): Uint8ClampedArray => {
+  const gray = new Uint8ClampedArray(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+const contrastStretch = (gray: Uint8ClampedArray): Uint8ClampedArray => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const cutoff = gray.length * 0.02;
+  let low = 0;
+  let high = 255;
+  for (let acc = 0; low < 255 && acc + histogram[low] < cutoff; low++) acc += histogram[low];
+  for (let acc = 0; high > 0 && acc + histogram[high] < cutoff; high--) acc += histogram[high];
+  if (high <= low) return gray;
+  const out = new Uint8ClampedArray(gray.length);
+  const range = high - low;
+  for (let i = 0; i < gray.length; i++) out[i] = ((gray[i] - low) * 255) / range;
+  return out;
+};
+
+// Mean-of-neighbourhood threshold computed from an integral image, which copes with
+// uneven lighting and glare that defeat a single global cut-off.
+const adaptiveThreshold = (gray: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+  const radius = Math.max(8, Math.round(Math.min(width, height) / 16));
+  const out = new Uint8ClampedArray(gray.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      out[y * width + x] = gray[y * width + x] < mean - 7 ? 0 : 255;
+    }
+  }
+  return out;
+};
+
+const invert = (gray: Uint8ClampedArray): Uint8ClampedArray => gray.map(v => 255 - v);
+
+const PHOTOMETRIC_VARIANTS: PhotometricVariant[] = [
+  { label: 'Contrast stretch', apply: gray => contrastStretch(gray) },
+  { label: 'Adaptive threshold', apply: (gray, w, h) => adaptiveThreshold(contrastStretch(gray), w, h) },
+  { label: 'Inverted threshold', apply: (gray, w, h) => invert(adaptiveThreshold(contrastStretch(gray), w, h)) },
+  { label: 'Inverted grayscale', apply: gray => invert(contrastStretch(gray)) },
+];
+
+const buildGeometricVariants = (width: number, height: number): GeometricVariant[] => {
+  const small = Math.max(width, height) < SMALL_IMAGE_SIZE;
+  const variants: GeometricVariant[] = [{ label: 'Original framing' }];
+  if (small) variants.push({ label: 'Upscaled 2x', scale: 2 });
+  for (const angle of [15, -15, 30, -30, 45, 90, 180]) {
+    variants.push({ label: `Rotated ${angle}°`, rotate: angle });
+  }
+  variants.push({ label: 'Center crop', crop: [0.2, 0.2, 0.6, 0.6], scale: 2 });
+  const quadrants: Array<[string, number, number]> = [
+    ['Top-left crop', 0, 0], ['Top-right crop', 0.5, 0], ['Bottom-left crop', 0, 0.5], ['Bottom-right crop', 0.5, 0.5],
+  ];
+  for (const [label, x, y] of quadrants) {
+    variants.push({ label, crop: [x, y, 0.5, 0.5], scale: 2 });
+  }
+  return variants;
+};
+
+const renderVariant = (img: HTMLImageElement, variant: GeometricVariant, baseScale: number): ImageData | null => {
+  const [cx, cy, cw, ch] = variant.crop || [0, 0, 1, 1];
+  const srcX = img.width * cx;
+  const srcY = img.height * cy;
+  const srcW = img.width * cw;
+  const srcH = img.height * ch;
+  const scale = Math.min(baseScale * (variant.scale || 1), MAX_WORKING_SIZE / Math.max(srcW, srcH));
+  const drawW = Math.round(srcW * scale);
+  const drawH = Math.round(srcH * scale);
+
+  const radians = ((variant.rotate || 0) * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(drawW * cos + drawH * sin);
+  canvas.height = Math.round(drawW * sin + drawH * cos);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  // White fill keeps the quiet zone intact around rotated codes.
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(img, srcX, srcY, srcW, srcH, -drawW / 2, -drawH / 2, drawW, drawH);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const grayToRgba = (gray: Uint8ClampedArray): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(gray.length * 4);
+  for (let i = 0; i < gray.length; i++) {
+    rgba[i * 4] = rgba[i * 4 + 1] = rgba[i * 4 + 2] = gray[i];
+    rgba[i * 4 + 3] = 255;
+  }
+  return rgba;
+};
+
+// Lets React paint progress between the CPU-heavy attempts.
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const deepScan = async (base64: string, onProgress?: DeepScanProgress): Promise<DeepScanResult | null> => {
+  const img = await loadImage(base64);
+  const baseScale = Math.min(1, MAX_WORKING_SIZE / Math.max(img.width, img.height));
+  const geometric = buildGeometricVariants(img.width * baseScale, img.height * baseScale);
+  const total = geometric.length * PHOTOMETRIC_VARIANTS.length;
+  let attempt = 0;
+
+  for (const geo of geometric) {
+    const frame = renderVariant(img, geo, baseScale);
+    if (!frame) continue;
+    const gray = toGrayscale(frame.data);
+
+    for (const photo of PHOTOMETRIC_VARIANTS) {
+      attempt++;
+      const transform = geo.label === 'Original framing' ? photo.label : `${geo.label} + ${photo.label}`;
+      onProgress?.(transform, attempt, total);
+      await yieldToBrowser();
+
+      const processed = photo.apply(gray, frame.width, frame.height);
+      const code = jsQR(grayToRgba(processed), frame.width, frame.height, { inversionAttempts: 'dontInvert' });
+      if (code && code.data) {
+        return { code, transform };
+      }
+    }
+  }
+  return null;
+};
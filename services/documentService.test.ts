@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { extractEmailImages } from './documentService';
+import { decodeHeaderValue } from './mimeParser';
+
+// 1x1 transparent PNG.
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const message = (subject: string, parts: string[]) => [
+  'From: =?utf-8?B?UGF5UGFs?= <billing@paypal.test>',
+  `Subject: ${subject}`,
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="b1"',
+  '',
+  ...parts.flatMap(part => ['--b1', part]),
+  '--b1--',
+  '',
+].join('\r\n');
+
+const imagePart = (name: string, body: string) => [
+  `Content-Type: image/png; name="${name}"`,
+  'Content-Transfer-Encoding: base64',
+  `Content-Disposition: attachment; filename="${name}"`,
+  '',
+  body,
+].join('\r\n');
+
+describe('decodeHeaderValue', () => {
+  it('decodes base64 and quoted-printable encoded words', () => {
+    expect(decodeHeaderValue('=?utf-8?B?UGF5UGFs?= =?utf-8?Q?_invoice?=')).toBe('PayPal invoice');
+  });
+
+  it('keeps an encoded word that is not valid base64 as written', () => {
+    expect(decodeHeaderValue('Re: =?utf-8?B?@@not*base64?= due')).toBe('Re: =?utf-8?B?@@not*base64?= due');
+  });
+});
+
+describe('extractEmailImages', () => {
+  it('reads the rest of the message when a header and an attachment do not decode', async () => {
+    const raw = message('=?utf-8?B?@@broken?=', [
+      imagePart('broken.png', 'iVBORw0K=Ggo\r\nAAAA'),
+      imagePart('code.png', PNG),
+    ]);
+
+    const images = await extractEmailImages(raw);
+
+    expect(images).toHaveLength(1);
+    expect(images[0].label).toBe('Attachment code.png');
+    expect(images[0].base64).toBe(`data:image/png;base64,${PNG}`);
+    expect(images[0].email).toMatchObject({ from: 'PayPal <billing@paypal.test>', subject: '=?utf-8?B?@@broken?=' });
+  });
+});
@@ -0,0 +1,171 @@
+import { EmailContext } from '../types';
+import {
+  decodeHeaderValue,
+  flattenParts,
+  getPartBytes,
+  getPartDataUrl,
+  getPartFilename,
+  getPartText,
+  parseMime,
+} from './mimeParser';
+
+// Turns PDFs and raw email messages into the images that may carry QR codes, so they
+// can go through the same decode-then-analyze path as a plain upload.
+
+export interface ExtractedImage {
+  label: string;
+  base64: string;
+  email?: EmailContext;
+}
+
+const MAX_PDF_PAGES = 20;
+const PDF_RENDER_MAX_SIZE = 2000;
+const TABLE_MODULE_PX = 8;
+// The smallest QR code (version 1) is 21 modules wide.
+const MIN_TABLE_MODULES = 21;
+
+export const UPLOAD_ACCEPT = 'image/*,application/pdf,.pdf,message/rfc822,.eml';
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+export const isEmailFile = (file: File) => file.type === 'message/rfc822' || /\.(eml|mht|mhtml)$/i.test(file.name);
+
+// pdf.js picks up a worker module published on this global instead of spawning one.
+declare global {
+  var pdfjsWorker: unknown;
+}
+
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs'),
+  ]);
+  // Running the worker code on the main thread avoids shipping a separate worker URL.
+  globalThis.pdfjsWorker = worker;
+  return pdfjs;
+};
+
+export const renderPdfPages = async (data: Uint8Array): Promise<Array<{ label: string; base64: string }>> => {
+  const pdfjs = await loadPdfJs();
+  const doc = await pdfjs.getDocument({ data, isEvalSupported: false }).promise;
+  const pages: Array<{ label: string; base64: string }> = [];
+
+  try {
+    for (let n = 1; n <= Math.min(doc.numPages, MAX_PDF_PAGES); n++) {
+      const page = await doc.getPage(n);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: Math.min(3, PDF_RENDER_MAX_SIZE / Math.max(base.width, base.height)) });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) continue;
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      pages.push({ label: `Page ${n}`, base64: canvas.toDataURL('image/png') });
+    }
+  } finally {
+    doc.destroy();
+  }
+  return pages;
+};
+
+const parseCssColor = (value: string | null): number | null => {
+  if (!value) return null;
+  const color = value.trim().toLowerCase();
+  if (color === 'black') return 0;
+  if (color === 'white') return 255;
+  let hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(color)?.[1];
+  if (hex) {
+    if (hex.length === 3) hex = hex.split('').map(c => c + c).join('');
+    const [r, g, b] = [0, 2, 4].map(i => parseInt(hex!.slice(i, i + 2), 16));
+    return 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+  const rgb = /^rgba?\((\d+)\D+(\d+)\D+(\d+)/.exec(color);
+  if (rgb) return 0.299 * +rgb[1] + 0.587 * +rgb[2] + 0.114 * +rgb[3];
+  return null;
+};
+
+const cellLuminance = (cell: Element): number | null => {
+  const style = cell.getAttribute('style') || '';
+  const fromStyle = /background(?:-color)?\s*:\s*([^;]+)/i.exec(style)?.[1] || null;
+  return parseCssColor(fromStyle) ?? parseCssColor(cell.getAttribute('bgcolor'));
+};
+
+// Phishing kits draw QR codes as <table> grids of black/white cells so that image
+// blocking and attachment scanners never see a picture. Rebuild those grids as images.
+const renderHtmlTableCodes = (html: string): string[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const images: string[] = [];
+
+  for (const table of Array.from(doc.querySelectorAll('table'))) {
+    const rows = Array.from(table.querySelectorAll(':scope > tbody > tr, :scope > tr'));
+    if (rows.length < MIN_TABLE_MODULES) continue;
+    const matrix = rows.map(row => Array.from(row.children).map(cell => {
+      const lum = cellLuminance(cell);
+      return lum !== null && lum < 128;
+    }));
+    const width = Math.max(...matrix.map(r => r.length));
+    if (width < MIN_TABLE_MODULES || Math.abs(width - matrix.length) > 2) continue;
+
+    const quiet = 4;
+    const canvas = document.createElement('canvas');
+    canvas.width = (width + quiet * 2) * TABLE_MODULE_PX;
+    canvas.height = (matrix.length + quiet * 2) * TABLE_MODULE_PX;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) continue;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#000000';
+    matrix.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) ctx.fillRect((x + quiet) * TABLE_MODULE_PX, (y + quiet) * TABLE_MODULE_PX, TABLE_MODULE_PX, TABLE_MODULE_PX);
+    }));
+    images.push(canvas.toDataURL('image/png'));
+  }
+  return images;
+};
+
+const extractHtmlDataImages = (html: string): string[] =>
+  Array.from(html.matchAll(/<img[^>]+src\s*=\s*["'](data:image\/[^"']+)["']/gi), m => m[1].replace(/\s+/g, ''));
+
+export const extractEmailImages = async (raw: string): Promise<ExtractedImage[]> => {
+  const root = parseMime(raw);
+  const email: EmailContext = {
+    from: decodeHeaderValue(root.headers.from || ''),
+    subject: decodeHeaderValue(root.headers.subject || ''),
+    date: root.headers.date,
+  };
+  const images: ExtractedImage[] = [];
+
+  for (const part of flattenParts(root)) {
+    const filename = getPartFilename(part);
+    const inline = (part.headers['content-disposition'] || '').toLowerCase().startsWith('inline') || !!part.headers['content-id'];
+    const where = filename ? `${inline ? 'Inline image' : 'Attachment'} ${filename}` : inline ? 'Inline image' : 'Attachment';
+
+    // A part whose body does not decode is skipped so the rest of the message is still read.
+    if (part.contentType.startsWith('image/')) {
+      const dataUrl = getPartDataUrl(part);
+      if (dataUrl) images.push({ label: where, base64: dataUrl, email });
+    } else if (part.contentType === 'application/pdf' || (filename && /\.pdf$/i.test(filename))) {
+      const bytes = getPartBytes(part);
+      if (!bytes) continue;
+      const pages = await renderPdfPages(bytes);
+      pages.forEach(p => images.push({ label: `${where} · ${p.label}`, base64: p.base64, email }));
+    } else if (part.contentType === 'text/html') {
+      const html = getPartText(part);
+      if (html === null) continue;
+      extractHtmlDataImages(html).forEach((src, i) => images.push({ label: `HTML body image ${i + 1}`, base64: src, email }));
+      renderHtmlTableCodes(html).forEach((src, i) => images.push({ label: `HTML table code ${i + 1}`, base64: src, email }));
+    }
+  }
+  return images;
+};
+
+export const extractDocumentImages = async (file: File): Promise<ExtractedImage[]> => {
+  if (isPdfFile(file)) {
+    return renderPdfPages(new Uint8Array(await file.arrayBuffer()));
+  }
+  if (isEmailFile(file)) {
+    return extractEmailImages(await file.text());
+  }
+  throw new Error(`${file.name} is not a supported document type.`);
+};
@@ -0,0 +1,205 @@
+import { AnalysisResult, HistoryEntry, QrStructure, ScanSource } from '../types';
+import { getPayloadDomain } from './heuristicsService';
+
+// Report exports for incident tickets. The JSON layout is versioned: add fields freely,
+// but bump REPORT_SCHEMA_VERSION before renaming or removing any.
+
+export const REPORT_SCHEMA = 'qrshield.scan-report';
+export const REPORT_SCHEMA_VERSION = 1;
+
+export interface ReportInput {
+  timestamp: number;
+  source: ScanSource | null;
+  content: string;
+  image: string | null;
+  recoveredBy?: string | null;
+  analysis: AnalysisResult;
+}
+
+export interface ScanReport {
+  schema: typeof REPORT_SCHEMA;
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  generatedAt: string;
+  scan: {
+    scannedAt: string;
+    source: ScanSource | null;
+    payload: string;
+    domain: string | null;
+    recoveredBy: string | null;
+    redirectChain: NonNullable<AnalysisResult['redirectChain']>;
+    qrStructure: AnalysisResult['qrStructure'] | null;
+    preview: AnalysisResult['preview'] | null;
+  };
+  verdict: {
+    riskScore: number;
+    riskLevel: string;
+    explanation: string;
+    recommendations: string[];
+    probabilities: AnalysisResult['probabilities'];
+    indicators: AnalysisResult['indicators'];
+    groundingSources: NonNullable<AnalysisResult['groundingSources']>;
+    providers: NonNullable<AnalysisResult['providers']>;
+    policyMatches: NonNullable<AnalysisResult['policyMatches']>;
+  };
+}
+
+const CSV_COLUMNS = [
+  'scannedAt', 'source', 'domain', 'payload', 'riskScore', 'riskLevel',
+  'malicious', 'fake', 'authentic', 'indicators', 'explanation'
+];
+
+export const fromHistoryEntry = (entry: HistoryEntry): ReportInput => ({
+  timestamp: entry.timestamp,
+  source: entry.source,
+  content: entry.content,
+  image: entry.thumbnail,
+  analysis: entry.analysis,
+});
+
+export const buildReport = (input: ReportInput): ScanReport => ({
+  schema: REPORT_SCHEMA,
+  schemaVersion: REPORT_SCHEMA_VERSION,
+  generatedAt: new Date().toISOString(),
+  scan: {
+    scannedAt: new Date(input.timestamp).toISOString(),
+    source: input.source,
+    payload: input.content,
+    domain: getPayloadDomain(input.content),
+    recoveredBy: input.recoveredBy || null,
+    redirectChain: input.analysis.redirectChain || [],
+    qrStructure: input.analysis.qrStructure || null,
+    preview: input.analysis.preview || null,
+  },
+  verdict: {
+    riskScore: input.analysis.riskScore,
+    riskLevel: input.analysis.riskLevel,
+    explanation: input.analysis.explanation,
+    recommendations: input.analysis.recommendations,
+    probabilities: input.analysis.probabilities,
+    indicators: input.analysis.indicators,
+    groundingSources: input.analysis.groundingSources || [],
+    providers: input.analysis.providers || [],
+    policyMatches: input.analysis.policyMatches || [],
+  },
+});
+
+export const downloadFile = (filename: string, mime: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const fileStamp = () => new Date().toISOString().replace(/[:.]/g, '-');
+
+const escapeCsv = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  // Leading =, +, - or @ would be evaluated as a formula by spreadsheet apps.
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (inputs: ReportInput[]): string => {
+  const rows = inputs.map(buildReport).map(r => [
+    r.scan.scannedAt,
+    r.scan.source,
+    r.scan.domain,
+    r.scan.payload,
+    r.verdict.riskScore,
+    r.verdict.riskLevel,
+    r.verdict.probabilities.malicious,
+    r.verdict.probabilities.fake,
+    r.verdict.probabilities.authentic,
+    r.verdict.indicators.map(ind => `${ind.id}(+${ind.weight})`).join(' '),
+    r.verdict.explanation,
+  ].map(escapeCsv).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const exportJson = (inputs: ReportInput[]) => {
+  const reports = inputs.map(buildReport);
+  const body = reports.length === 1 ? reports[0] : reports;
+  downloadFile(`qrshield-report-${fileStamp()}.json`, 'application/json', JSON.stringify(body, null, 2));
+};
+
+export const exportCsv = (inputs: ReportInput[]) => {
+  downloadFile(`qrshield-scans-${fileStamp()}.csv`, 'text/csv', toCsv(inputs));
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+const describeStructure = (structure: QrStructure): string => [
+  `Version ${structure.version}`,
+  structure.ecLevel ? `EC level ${structure.ecLevel}` : null,
+  structure.mask !== undefined ? `mask ${structure.mask}` : null,
+  `segments ${structure.segments.map(s => `${s.mode}(${s.length})`).join(' ')}`,
+  structure.codewords ? `${structure.codewords.corrected}/${structure.codewords.capacity} correctable codewords repaired` : null,
+  `${structure.hiddenBytes} hidden bytes`,
+  `${structure.nonPrintable} non-printable characters`,
+  structure.mixedEncoding ? 'mixed encoding' : null,
+].filter(Boolean).join(' · ');
+
+const renderPrintHtml = (report: ScanReport, image: string | null): string => {
+  const { scan, verdict } = report;
+  const circumference = 440;
+  const offset = circumference - (circumference * verdict.riskScore) / 100;
+  const bars = ([
+    ['Malicious Intent', verdict.probabilities.malicious, '#f43f5e'],
+    ['Fake / Pseudo Pattern', verdict.probabilities.fake, '#f59e0b'],
+    ['Official / Authentic', verdict.probabilities.authentic, '#10b981'],
+  ] as const).map(([label, value, color]) => `
+    <div class="bar"><span>${label}</span><b>${value}%</b></div>
+    <div class="track"><div style="width:${Math.max(0, Math.min(100, value))}%;background:${color}"></div></div>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en"><head><meta charset="UTF-8"><title>QRShield Report - ${escapeHtml(scan.domain || 'payload')}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; } h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .15em; color: #475569; margin: 28px 0 10px; }
+  .meta { color: #64748b; font-size: 12px; } .row { display: flex; gap: 32px; align-items: center; }
+  .payload { font-family: ui-monospace, monospace; font-size: 12px; word-break: break-all; background: #f1f5f9; padding: 12px; border-radius: 8px; }
+  .bar { display: flex; justify-content: space-between; font-size: 12px; margin-top: 8px; }
+  .track { height: 8px; background: #e2e8f0; border-radius: 4px; overflow: hidden; } .track div { height: 100%; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; } td, th { border-bottom: 1px solid #e2e8f0; padding: 6px; text-align: left; vertical-align: top; }
+  img.qr { max-width: 220px; max-height: 220px; border: 1px solid #cbd5e1; border-radius: 8px; }
+  @media print { body { margin: 12mm; } }
+</style></head><body>
+  <h1>QRShield Forensic Report</h1>
+  <p class="meta">Scanned ${escapeHtml(scan.scannedAt)} · source: ${escapeHtml(scan.source || 'unknown')} · generated ${escapeHtml(report.generatedAt)} · schema v${report.schemaVersion}</p>
+  <div class="row">
+    ${image ? `<img class="qr" src="${escapeHtml(image)}" alt="QR source image">` : ''}
+    <svg width="160" height="160" viewBox="0 0 160 160"><g transform="rotate(-90 80 80)">
+      <circle cx="80" cy="80" r="70" stroke="#e2e8f0" stroke-width="14" fill="none"/>
+      <circle cx="80" cy="80" r="70" stroke="#0f172a" stroke-width="14" fill="none" stroke-dasharray="${circumference}" stroke-dashoffset="${offset}" stroke-linecap="round"/></g>
+      <text x="80" y="78" text-anchor="middle" font-size="32" font-weight="900">${verdict.riskScore}%</text>
+      <text x="80" y="102" text-anchor="middle" font-size="12" font-weight="700">${escapeHtml(verdict.riskLevel)}</text>
+    </svg>
+    <div style="flex:1">${bars}</div>
+  </div>
+  <h2>Payload</h2><div class="payload">${escapeHtml(scan.payload)}</div>
+  ${scan.recoveredBy ? `<p class="meta">Recovered via deep scan: ${escapeHtml(scan.recoveredBy)}</p>` : ''}
+  ${scan.redirectChain.length ? `<h2>Redirect Chain</h2><ol>${scan.redirectChain.map(hop => `<li><code>${escapeHtml(hop.url)}</code> <span class="meta">${escapeHtml(hop.via)}${hop.detail ? ` · ${escapeHtml(hop.detail)}` : ''} · ${hop.riskScore} ${escapeHtml(hop.riskLevel)}</span></li>`).join('')}</ol>` : ''}
+  ${scan.qrStructure ? `<h2>Code Structure</h2><p class="meta">${escapeHtml(describeStructure(scan.qrStructure))}</p>` : ''}
+  ${scan.preview ? `<h2>Destination Preview</h2><p><code>${escapeHtml(scan.preview.finalUrl)}</code> <span class="meta">HTTP ${scan.preview.status} · ${escapeHtml(scan.preview.title || 'untitled')} · ${scan.preview.forms.length} forms · ${scan.preview.passwordFields} password fields${scan.preview.brandMatches.length ? ` · shows ${escapeHtml(scan.preview.brandMatches.join(', '))} branding` : ''}</span></p>` : ''}
+  <h2>Findings</h2><p>${escapeHtml(verdict.explanation)}</p>
+  ${verdict.indicators.length ? `<table><tr><th>Indicator</th><th>Category</th><th>Severity</th><th>Weight</th><th>Match</th></tr>${verdict.indicators.map(ind => `
+    <tr><td>${escapeHtml(ind.description)}</td><td>${escapeHtml(ind.category)}</td><td>${escapeHtml(ind.severity)}</td><td>+${ind.weight}</td><td><code>${escapeHtml(ind.match)}</code></td></tr>`).join('')}</table>` : ''}
+  ${verdict.providers.length ? `<h2>Providers</h2><ol>${verdict.providers.map(p => `<li>${escapeHtml(p.provider)} <span class="meta">${p.error ? `failed: ${escapeHtml(p.error)}` : `${p.riskScore} ${escapeHtml(p.riskLevel)}`}</span></li>`).join('')}</ol>` : ''}
+  ${verdict.policyMatches.length ? `<h2>Policy Matches</h2><ol>${verdict.policyMatches.map(m => `<li>${escapeHtml(m.kind)} <code>${escapeHtml(m.rule)}</code> <span class="meta">${escapeHtml(m.value)}</span></li>`).join('')}</ol>` : ''}
+  <h2>Recommendations</h2><ol>${verdict.recommendations.map(r => `<li>${escapeHtml(r)}</li>`).join('')}</ol>
+</body></html>`;
+};
+
+// Opens a print-styled report; the browser's print dialog offers "Save as PDF".
+export const printReport = (input: ReportInput) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('The report window was blocked. Allow pop-ups for this site to print reports.');
+  win.document.write(renderPrintHtml(buildReport(input), input.image));
+  win.document.close();
+  win.onload = () => win.print();
+};
@@ -1,3 +1,82 @@
+import { GenerateContentParameters, GoogleGenAI, GroundingMetadata } from '@google/genai';
+import { AnalysisResult, Analyzer, AnalyzerSettings, ChatMessage, GroundingSource } from '../types';
+import { ANALYSIS_JSON_SCHEMA, GROUNDING_INSTRUCTION, SYSTEM_INSTRUCTION, buildAnalysisPrompt } from './analysisPrompt';
+import { AnalyzerError, RetryOptions, errorFromStatus, parseAnalysisResponse, withRetry } from './responseValidator';
 
-// This file has been deprecated as the application is now fully local.
-export {};
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+// Anything that answers generateContent; swapped out for a canned response in tests.
+export type GeminiTransport = (request: GenerateContentParameters) => Promise<{
+  text?: string;
+  candidates?: Array<{ groundingMetadata?: GroundingMetadata }>;
+}>;
+
+// Built-in tools can only be combined with a JSON response schema from Gemini 3 on; older
+// models reject the request, so they run ungrounded.
+export const supportsGrounding = (model: string) => /^gemini-([3-9]|\d{2,})/.test(model);
+
+const resolveApiKey = (config: AnalyzerSettings['gemini']) => config.apiKey || process.env.API_KEY || '';
+
+const sdkTransport = (apiKey: string): GeminiTransport => request =>
+  new GoogleGenAI({ apiKey }).models.generateContent(request);
+
+// The SDK throws ApiError with an HTTP status; anything without one never reached the API.
+const toAnalyzerError = (err: unknown): AnalyzerError => {
+  if (err instanceof AnalyzerError) return err;
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === 'number') return errorFromStatus(status, 'Gemini');
+  return new AnalyzerError('network', `Gemini could not be reached: ${err instanceof Error ? err.message : String(err)}`);
+};
+
+// Search citations, deduplicated. The URIs are Google redirect links whose title is the
+// cited site's domain.
+export const extractGroundingSources = (metadata: GroundingMetadata | undefined): GroundingSource[] => {
+  const seen = new Set<string>();
+  const sources: GroundingSource[] = [];
+  for (const chunk of metadata?.groundingChunks || []) {
+    const uri = chunk.web?.uri;
+    if (!uri || seen.has(uri)) continue;
+    seen.add(uri);
+    sources.push({ title: chunk.web?.title || chunk.web?.domain || uri, uri });
+  }
+  return sources;
+};
+
+export const createGeminiAnalyzer = (
+  config: AnalyzerSettings['gemini'],
+  transport?: GeminiTransport,
+  retry?: RetryOptions
+): Analyzer => ({
+  id: 'gemini',
+  label: 'Google Gemini',
+  isAvailable: () => !!transport || !!resolveApiKey(config),
+  analyze: async (content: string): Promise<AnalysisResult> => {
+    const send = transport || sdkTransport(resolveApiKey(config));
+    const model = config.model || DEFAULT_GEMINI_MODEL;
+    const grounded = config.grounding && supportsGrounding(model);
+    const response = await withRetry(() => send({
+      model,
+      contents: buildAnalysisPrompt(content),
+      config: {
+        systemInstruction: grounded ? SYSTEM_INSTRUCTION + GROUNDING_INSTRUCTION : SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseJsonSchema: ANALYSIS_JSON_SCHEMA,
+        ...(grounded ? { tools: [{ googleSearch: {} }] } : {}),
+      },
+    }).catch(err => { throw toAnalyzerError(err); }), retry);
+    const result = parseAnalysisResponse(response.text || '', content);
+    const sources = extractGroundingSources(response.candidates?.[0]?.groundingMetadata);
+    return sources.length ? { ...result, groundingSources: sources } : result;
+  },
+  chat: async (systemInstruction: string, messages: ChatMessage[]): Promise<string> => {
+    const send = transport || sdkTransport(resolveApiKey(config));
+    const response = await withRetry(() => send({
+      model: config.model || DEFAULT_GEMINI_MODEL,
+      contents: messages.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+      config: { systemInstruction },
+    }).catch(err => { throw toAnalyzerError(err); }), retry);
+    const reply = response.text?.trim();
+    if (!reply) throw new AnalyzerError('malformed', 'Gemini returned an empty reply.');
+    return reply;
+  },
+});
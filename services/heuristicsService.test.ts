@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeLocally } from './heuristicsService';
+
+const brandIndicators = (url: string) =>
+  (analyzeLocally(url).indicators || []).filter(ind => ind.category === 'brand').map(ind => ind.id);
+
+describe('analyzeLocally brand checks', () => {
+  it('leaves the brand\'s own domains and government registries alone', () => {
+    for (const url of ['https://paypal.com/signin', 'https://www.paypal.com/', 'https://amazon.co.uk/', 'https://usps.gov/track']) {
+      expect(analyzeLocally(url).riskScore, url).toBe(0);
+      expect(brandIndicators(url), url).toEqual([]);
+    }
+  });
+
+  it('flags the brand name on a domain the brand does not list', () => {
+    for (const url of ['https://paypal.co/login', 'https://paypal.cm/x', 'https://chase.io/']) {
+      expect(brandIndicators(url), url).toEqual(['brand-name-domain']);
+      expect(analyzeLocally(url).riskScore, url).toBeGreaterThan(0);
+    }
+  });
+
+  it('finds a brand run into other words of the host', () => {
+    for (const url of ['https://paypallogin.com/', 'https://securepaypal.com/', 'https://login.paypalverify.net/', 'https://apple-id.help/']) {
+      expect(brandIndicators(url), url).toEqual(['brand-in-host']);
+    }
+  });
+
+  it('does not read a short brand inside an ordinary word', () => {
+    for (const url of ['https://applebees.com/menu', 'https://www.chasestreet.org/']) {
+      expect(brandIndicators(url), url).toEqual([]);
+    }
+  });
+});
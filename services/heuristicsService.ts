@@ -0,0 +1,505 @@
+import { AnalysisResult, EmailContext, IndicatorCategory, IndicatorSeverity, ParsedPayload, ProbabilityMap, RiskIndicator, RiskLevel } from '../types';
+import { PAYLOAD_LABELS, extractUrls, parsePayload } from './payloadParser';
+import { inspectHost } from './idnService';
+
+// Deterministic, offline analyzer. Produces the same AnalysisResult shape as the
+// model-backed path so the UI does not need to know which one ran.
+
+interface Finding {
+  id: string;
+  category: IndicatorCategory;
+  weight: number;
+  // Which bucket of the probability map the finding pushes towards.
+  kind: 'malicious' | 'fake';
+  match: string;
+  message: string;
+}
+
+const SUSPICIOUS_TLDS = [
+  'zip', 'mov', 'xyz', 'top', 'tk', 'ml', 'ga', 'cf', 'gq', 'work', 'click', 'link',
+  'country', 'stream', 'download', 'racing', 'review', 'loan', 'icu', 'buzz', 'rest',
+  'cam', 'monster', 'support', 'live', 'quest', 'cyou', 'sbs', 'cfd'
+];
+
+const URL_SHORTENERS = [
+  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly', 'rebrand.ly',
+  'cutt.ly', 'shorturl.at', 'rb.gy', 'tiny.cc', 'bl.ink', 'qrco.de', 'qr.codes',
+  'lnkd.in', 's.id', 'v.gd', 't.ly', 'shorte.st'
+];
+
+export const KNOWN_BRANDS: Record<string, string[]> = {
+  paypal: ['paypal.com', 'paypal.me'],
+  google: ['google.com', 'goo.gl', 'youtube.com'],
+  microsoft: ['microsoft.com', 'live.com', 'office.com', 'outlook.com', 'microsoftonline.com'],
+  apple: ['apple.com', 'icloud.com'],
+  amazon: ['amazon.com', 'amazon.co.uk', 'amazon.de', 'amazon.in'],
+  netflix: ['netflix.com'],
+  facebook: ['facebook.com', 'fb.com', 'fb.me'],
+  instagram: ['instagram.com'],
+  whatsapp: ['whatsapp.com', 'wa.me'],
+  linkedin: ['linkedin.com', 'lnkd.in'],
+  dhl: ['dhl.com', 'dhl.de'],
+  fedex: ['fedex.com'],
+  usps: ['usps.com'],
+  chase: ['chase.com'],
+  wellsfargo: ['wellsfargo.com'],
+  bankofamerica: ['bankofamerica.com'],
+  coinbase: ['coinbase.com'],
+  binance: ['binance.com'],
+  docusign: ['docusign.com', 'docusign.net'],
+  dropbox: ['dropbox.com'],
+};
+
+// Second-level suffixes under which the registrable domain is three labels deep.
+const MULTI_PART_SUFFIXES = [
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'com.au', 'net.au', 'org.au', 'co.in', 'co.jp',
+  'co.nz', 'com.br', 'com.cn', 'com.mx', 'co.za', 'com.sg', 'com.tr'
+];
+
+const URGENCY_PATTERN = /\b(urgent|immediately|suspended|verify|locked|overdue|final notice|refund|prize|winner)\b/i;
+
+// Text addressed to an AI analyzer rather than a human: instruction overrides, role
+// markers, or a pre-written verdict. Legitimate QR payloads have no reason to contain these.
+const INJECTION_PATTERNS = [
+  /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}?\b(?:previous|prior|above|earlier|all|any|your)\b[^.\n]{0,20}?\b(?:instructions?|prompts?|rules|directives)\b/i,
+  /\b(?:you are now|pretend (?:to be|you are)|new instructions?|system prompt)\b/i,
+  /(?:<\|im_start\|>|<\|system\|>|\[\/?INST\]|<\/?payload\b|^\s*(?:system|assistant)\s*:)/im,
+  /["']?\b(?:riskScore|riskLevel|risk[ _-]score)\b["']?\s*[:=]/i,
+  /\b(?:return|respond with|output|classify (?:this|it) as|mark (?:this|it) as)\s[^.\n]{0,40}?\b(?:risk ?score|riskLevel|safe|benign|legitimate|low risk)\b/i,
+];
+
+// Premium-rate number ranges in the markets we see most often (US 1-900, UK 09, DE 0900, FR 089x).
+const PREMIUM_NUMBER_PATTERNS = [/^\+?1-?900/, /^(\+44|0)9\d/, /^(\+49|0)900/, /^(\+33|0)89\d/];
+
+const IPV4_PATTERN = /^(\d{1,3})(\.\d{1,3}){3}$/;
+// Integer / hex hosts such as http://3232235777 or http://0xC0A80001 resolve to IPs.
+const NUMERIC_HOST_PATTERN = /^(0x[0-9a-f]+|\d+)$/i;
+
+export const getRiskLevel = (score: number): RiskLevel => {
+  if (score >= 80) return RiskLevel.CRITICAL;
+  if (score >= 60) return RiskLevel.HIGH;
+  if (score >= 40) return RiskLevel.SUSPICIOUS;
+  if (score >= 20) return RiskLevel.MODERATE;
+  return RiskLevel.LOW;
+};
+
+export const getRegistrableDomain = (host: string): string => {
+  const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+  if (labels.length <= 2) return labels.join('.');
+  const lastTwo = labels.slice(-2).join('.');
+  const depth = MULTI_PART_SUFFIXES.includes(lastTwo) ? 3 : 2;
+  return labels.slice(-depth).join('.');
+};
+
+export const levenshtein = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = prev[j];
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diag + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diag = temp;
+    }
+  }
+  return prev[b.length];
+};
+
+export const parseUrl = (content: string): URL | null => {
+  const trimmed = content.trim();
+  try {
+    return new URL(trimmed);
+  } catch {
+    // Bare hosts like "paypa1.com/login" are still opened as links by most scanners.
+    if (/^[a-z0-9.-]+\.[a-z]{2,}(\/|$)/i.test(trimmed)) {
+      try {
+        return new URL(`http://${trimmed}`);
+      } catch {
+        return null;
+      }
+    }
+    return null;
+  }
+};
+
+export const getPayloadDomain = (content: string): string | null => {
+  const payload = parsePayload(content);
+  const url = payload.type === 'url' ? parseUrl(payload.url) : null;
+  return url?.hostname ? getRegistrableDomain(url.hostname) : null;
+};
+
+const checkScheme = (url: URL, findings: Finding[]) => {
+  switch (url.protocol) {
+    case 'https:':
+      return;
+    case 'http:':
+      findings.push({ id: 'insecure-http', category: 'scheme', weight: 15, kind: 'malicious', match: 'http:', message: 'Link uses unencrypted HTTP instead of HTTPS.' });
+      return;
+    case 'javascript:':
+    case 'data:':
+    case 'vbscript:':
+      findings.push({ id: 'script-scheme', category: 'scheme', weight: 60, kind: 'malicious', match: url.protocol, message: `The ${url.protocol} scheme can execute code directly in the browser.` });
+      return;
+    case 'file:':
+      findings.push({ id: 'file-scheme', category: 'scheme', weight: 40, kind: 'malicious', match: 'file:', message: 'The file: scheme points at the local filesystem.' });
+      return;
+    default:
+      break;
+  }
+};
+
+const checkHost = (url: URL, findings: Finding[]) => {
+  const host = url.hostname.toLowerCase();
+  if (!host) return;
+
+  if (IPV4_PATTERN.test(host) || host.startsWith('[') || NUMERIC_HOST_PATTERN.test(host)) {
+    findings.push({ id: 'ip-literal-host', category: 'domain', weight: 35, kind: 'malicious', match: host, message: `Host is a raw IP address (${host}) rather than a domain name.` });
+    return;
+  }
+
+  if (host.split('.').some(label => label.startsWith('xn--'))) {
+    findings.push({ id: 'punycode-host', category: 'encoding', weight: 30, kind: 'fake', match: host, message: `Host uses punycode (${host}), which can disguise lookalike characters.` });
+  }
+
+  const tld = host.split('.').pop() || '';
+  if (SUSPICIOUS_TLDS.includes(tld)) {
+    findings.push({ id: 'suspicious-tld', category: 'domain', weight: 20, kind: 'fake', match: `.${tld}`, message: `The .${tld} top-level domain is frequently abused for phishing.` });
+  }
+
+  const registrable = getRegistrableDomain(host);
+  if (URL_SHORTENERS.includes(registrable) || URL_SHORTENERS.includes(host)) {
+    findings.push({ id: 'url-shortener', category: 'redirect', weight: 20, kind: 'fake', match: host, message: `${host} is a URL shortener that hides the real destination.` });
+  }
+
+  checkTyposquatting(host, registrable, findings);
+};
+
+// Digit and letter-pair substitutions that read as the original at a glance.
+const ASCII_LOOKALIKES: Array<[RegExp, string]> = [
+  [/rn/g, 'm'], [/vv/g, 'w'], [/cl/g, 'd'], [/0/g, 'o'], [/1/g, 'l'], [/3/g, 'e'], [/5/g, 's'], [/\$/g, 's'],
+];
+
+export const asciiSkeleton = (label: string): string =>
+  ASCII_LOOKALIKES.reduce((acc, [pattern, replacement]) => acc.replace(pattern, replacement), label.toLowerCase());
+
+// Government suffixes are registry-restricted, so a brand label there is the brand itself.
+const GOVERNMENT_SUFFIX = /(^|\.)gov(\.[a-z]{2})?$/;
+
+// A brand label on a government suffix (usps.gov) is the agency itself. Any other domain
+// counts as official only when it is listed for the brand.
+const isGovernmentBrand = (registrable: string, brand: string, domains: string[]): boolean => {
+  const [label, ...suffix] = registrable.split('.');
+  return [brand, ...domains.map(d => d.split('.')[0])].includes(label) && GOVERNMENT_SUFFIX.test(suffix.join('.'));
+};
+
+// Shorter brands are common inside ordinary words ("applebees"), so they only count as a
+// separate word of the label; longer ones count anywhere ("securepaypal", "paypallogin").
+const MIN_SUBSTRING_BRAND_LENGTH = 6;
+
+const labelNamesBrand = (label: string, brand: string): boolean =>
+  brand.length >= MIN_SUBSTRING_BRAND_LENGTH
+    ? label.includes(brand)
+    : label.split(/[^a-z]+/).includes(brand);
+
+const brandFinding = (host: string, registrable: string, brands: Record<string, string[]>): Finding | null => {
+  if (Object.values(brands).flat().includes(registrable)) return null;
+  if (Object.entries(brands).some(([brand, domains]) => isGovernmentBrand(registrable, brand, domains))) return null;
+
+  const mainLabel = registrable.split('.')[0];
+  const subdomainLabels = host.slice(0, Math.max(0, host.length - registrable.length - 1)).split('.').filter(Boolean);
+
+  for (const [brand, domains] of Object.entries(brands)) {
+    const official = domains[0];
+    if (mainLabel === brand) {
+      return { id: 'brand-name-domain', category: 'brand', weight: 45, kind: 'fake', match: registrable, message: `${registrable} uses the ${brand} name but is not an official ${official} domain.` };
+    }
+    const distance = levenshtein(mainLabel, brand);
+    if (brand.length >= 4 && distance > 0 && distance <= (brand.length > 7 ? 2 : 1)) {
+      return { id: 'typosquat', category: 'brand', weight: 50, kind: 'fake', match: registrable, message: `${registrable} is a near-miss spelling of ${official} (typosquatting).` };
+    }
+    if (mainLabel.replace(/-/g, '') === brand || asciiSkeleton(mainLabel) === brand) {
+      return { id: 'brand-lookalike', category: 'brand', weight: 50, kind: 'fake', match: registrable, message: `${registrable} is built to read as ${official} using hyphens or lookalike characters.` };
+    }
+    if ([mainLabel, ...subdomainLabels].some(label => labelNamesBrand(label, brand))) {
+      return { id: 'brand-in-host', category: 'brand', weight: 40, kind: 'fake', match: host, message: `The ${brand} brand appears in ${host}, which is not owned by ${official}.` };
+    }
+  }
+  return null;
+};
+
+const checkTyposquatting = (host: string, registrable: string, findings: Finding[]) => {
+  const finding = brandFinding(host, registrable, KNOWN_BRANDS);
+  if (finding) findings.push(finding);
+};
+
+const checkConfusables = (raw: string, url: URL, findings: Finding[]) => {
+  const inspection = inspectHost(url.hostname, KNOWN_BRANDS, getRegistrableDomain(url.hostname));
+  if (inspection.suspicious.length === 0) return;
+  // Highlight whichever form the payload actually carries.
+  const match = raw.toLowerCase().includes(inspection.unicode) ? inspection.unicode : inspection.ascii;
+  const chars = inspection.suspicious.map(c => `${c.script} "${c.char}" ${c.codePoint}`).join(', ');
+
+  if (inspection.brand) {
+    findings.push({ id: 'idn-homoglyph', category: 'encoding', weight: 60, kind: 'fake', match, message: `${inspection.unicode} imitates ${inspection.brand.official} with lookalike characters (${chars}).` });
+  } else if (inspection.mixedScript) {
+    findings.push({ id: 'mixed-script-host', category: 'encoding', weight: 35, kind: 'fake', match, message: `${inspection.unicode} mixes scripts within one label (${chars}), a common way to fake a familiar name.` });
+  }
+};
+
+const checkUserinfo = (content: string, url: URL, findings: Finding[]) => {
+  const userinfo = /^[a-z]+:\/\/([^/?#]*@)/i.exec(content.trim());
+  if (url.username || url.password || userinfo) {
+    findings.push({ id: 'userinfo-at', category: 'domain', weight: 35, kind: 'malicious', match: userinfo ? userinfo[1] : '@', message: 'The link contains an "@" before the host, so the visible prefix is not the real destination.' });
+  }
+};
+
+const buildProbabilities = (findings: Finding[], score: number): ProbabilityMap => {
+  if (findings.length === 0) {
+    return { malicious: 3, fake: 5, authentic: 92 };
+  }
+  const maliciousWeight = findings.filter(f => f.kind === 'malicious').reduce((sum, f) => sum + f.weight, 0);
+  const fakeWeight = findings.filter(f => f.kind === 'fake').reduce((sum, f) => sum + f.weight, 0);
+  const total = maliciousWeight + fakeWeight;
+  const authentic = Math.max(0, 100 - score);
+  const malicious = Math.round((score * maliciousWeight) / total);
+  return { malicious, fake: 100 - authentic - malicious, authentic };
+};
+
+export const getSeverity = (weight: number): IndicatorSeverity => {
+  if (weight >= 50) return 'critical';
+  if (weight >= 35) return 'high';
+  if (weight >= 20) return 'medium';
+  return 'low';
+};
+
+const toIndicator = ({ id, category, weight, match, message }: Finding): RiskIndicator => ({
+  id,
+  category,
+  severity: getSeverity(weight),
+  weight,
+  match,
+  description: message,
+});
+
+// Brand impersonation against a caller-supplied brand list, e.g. an organisation profile.
+export const brandIndicator = (host: string, brands: Record<string, string[]>): RiskIndicator | null => {
+  const finding = brandFinding(host.toLowerCase(), getRegistrableDomain(host), brands);
+  return finding ? toIndicator(finding) : null;
+};
+
+const digitsOf = (value: string) => value.replace(/[^\d+]/g, '');
+
+const checkUrls = (urls: string[], findings: Finding[]) => {
+  for (const raw of urls) {
+    const url = parseUrl(raw);
+    if (!url) continue;
+    checkScheme(url, findings);
+    checkUserinfo(raw, url, findings);
+    checkHost(url, findings);
+    checkConfusables(raw, url, findings);
+  }
+};
+
+const checkUrgency = (text: string | undefined, findings: Finding[]) => {
+  const match = text ? URGENCY_PATTERN.exec(text) : null;
+  if (match) {
+    findings.push({ id: 'urgency-language', category: 'payload', weight: 10, kind: 'fake', match: match[1], message: `Prefilled text uses pressure language ("${match[1]}").` });
+  }
+};
+
+const checkPromptInjection = (content: string, findings: Finding[]) => {
+  for (const pattern of INJECTION_PATTERNS) {
+    const match = pattern.exec(content);
+    if (match) {
+      findings.push({ id: 'prompt-injection', category: 'payload', weight: 40, kind: 'malicious', match: match[0].trim(), message: 'The payload contains instructions aimed at an automated analyzer, an attempt to talk its way past the scan.' });
+      return;
+    }
+  }
+};
+
+const checkEmailDomain = (address: string, findings: Finding[]) => {
+  const domain = address.split('@')[1];
+  if (domain) checkTyposquatting(domain.toLowerCase(), getRegistrableDomain(domain), findings);
+};
+
+// A payee handle that shares no token with the displayed name is the classic UPI swap.
+const payeeMatchesName = (handle: string, name: string): boolean => {
+  const local = handle.split('@')[0].toLowerCase().replace(/[^a-z]/g, '');
+  if (!local) return true;
+  const tokens = name.toLowerCase().split(/[^a-z]+/).filter(t => t.length >= 3);
+  if (tokens.length === 0) return true;
+  return tokens.some(t => local.includes(t) || t.includes(local));
+};
+
+const checkPayload = (payload: ParsedPayload, content: string, findings: Finding[]) => {
+  switch (payload.type) {
+    case 'url':
+      checkUrls([payload.url], findings);
+      return;
+    case 'wifi':
+      if (payload.security === 'nopass') {
+        findings.push({ id: 'open-wifi', category: 'payload', weight: 30, kind: 'malicious', match: payload.ssid, message: `Joins the open network "${payload.ssid}" without a password; rogue hotspots rely on this to intercept traffic.` });
+      } else if (payload.security === 'WEP') {
+        findings.push({ id: 'weak-wifi', category: 'payload', weight: 15, kind: 'malicious', match: payload.ssid, message: `Network "${payload.ssid}" uses WEP, which can be cracked in minutes.` });
+      }
+      if (payload.hidden) {
+        findings.push({ id: 'hidden-wifi', category: 'payload', weight: 10, kind: 'fake', match: 'H:true', message: 'The network is hidden, so its name cannot be checked against the venue before joining.' });
+      }
+      return;
+    case 'email':
+      checkEmailDomain(payload.to, findings);
+      checkUrgency(`${payload.subject || ''} ${payload.body || ''}`, findings);
+      checkUrls(extractUrls(payload.body || ''), findings);
+      return;
+    case 'sms': {
+      const digits = digitsOf(payload.number).replace(/^\+/, '');
+      if (/^\d{4,6}$/.test(digits)) {
+        findings.push({ id: 'premium-sms', category: 'payload', weight: 35, kind: 'malicious', match: payload.number, message: `Sends a text to the short code ${digits}, which may be billed at premium rates.` });
+      }
+      checkUrgency(payload.message, findings);
+      checkUrls(extractUrls(payload.message || ''), findings);
+      return;
+    }
+    case 'tel':
+      if (/[*#]/.test(payload.number)) {
+        findings.push({ id: 'ussd-code', category: 'payload', weight: 45, kind: 'malicious', match: payload.number, message: `The number contains USSD control characters (${payload.number}) that can change phone settings.` });
+      } else if (PREMIUM_NUMBER_PATTERNS.some(p => p.test(digitsOf(payload.number)))) {
+        findings.push({ id: 'premium-number', category: 'payload', weight: 30, kind: 'malicious', match: payload.number, message: `${payload.number} is in a premium-rate number range.` });
+      }
+      return;
+    case 'vcard':
+      payload.emails.forEach(email => checkEmailDomain(email, findings));
+      checkUrls(payload.urls, findings);
+      return;
+    case 'vevent':
+      checkUrgency(`${payload.summary || ''} ${payload.description || ''}`, findings);
+      checkUrls(payload.urls, findings);
+      return;
+    case 'upi':
+      if (payload.payeeName && !payeeMatchesName(payload.payeeAddress, payload.payeeName)) {
+        findings.push({ id: 'payee-mismatch', category: 'payload', weight: 35, kind: 'fake', match: payload.payeeAddress, message: `Payee handle ${payload.payeeAddress} does not match the displayed name "${payload.payeeName}".` });
+      }
+      if (payload.amount) {
+        findings.push({ id: 'prefilled-amount', category: 'payload', weight: 10, kind: 'fake', match: payload.amount, message: `The payment amount is prefilled (${payload.amount}${payload.currency ? ' ' + payload.currency : ''}).` });
+      }
+      checkUrgency(payload.note, findings);
+      return;
+    case 'emv':
+      if (!payload.crcValid) {
+        findings.push({ id: 'emv-checksum', category: 'encoding', weight: 40, kind: 'malicious', match: content.slice(content.lastIndexOf('6304')), message: 'The EMV payment checksum is missing or wrong, which suggests the payload was edited.' });
+      }
+      return;
+    case 'geo':
+    case 'text':
+      checkUrls(extractUrls(content), findings);
+      return;
+  }
+};
+
+const buildRecommendations = (level: RiskLevel, payload: ParsedPayload): string[] => {
+  if (level === RiskLevel.LOW) {
+    return [
+      'No local red flags were found, but still confirm the destination matches what the printed material promises.',
+      'Avoid entering credentials on a page reached through a QR code; navigate to the site manually instead.',
+      'Check that the QR code has not been covered by a sticker before scanning it again.'
+    ];
+  }
+  let first: string;
+  switch (payload.type) {
+    case 'url':
+      first = 'Do not open this link. Navigate to the organisation\'s site by typing its address manually.';
+      break;
+    case 'upi':
+    case 'emv':
+      first = 'Do not pay through this code. Confirm the payee with the merchant in person first.';
+      break;
+    case 'wifi':
+      first = 'Do not join this network. Ask the venue staff for the official network name.';
+      break;
+    default:
+      first = 'Do not act on this payload until its origin has been verified.';
+  }
+  return [
+    first,
+    'Never enter passwords, card numbers or one-time codes on a page reached through this QR code.',
+    'Report the QR code to your security team and, if it is on a physical poster, to the venue operator.'
+  ];
+};
+
+export const analyzeLocally = (content: string): AnalysisResult => {
+  const findings: Finding[] = [];
+  const payload = parsePayload(content);
+  checkPayload(payload, content, findings);
+  checkPromptInjection(content, findings);
+
+  const score = Math.min(100, findings.reduce((sum, f) => sum + f.weight, 0));
+  const riskLevel = getRiskLevel(score);
+
+  const explanation = findings.length > 0
+    ? findings.map(f => f.message).join(' ')
+    : `No phishing indicators were detected in this ${PAYLOAD_LABELS[payload.type].toLowerCase()} payload.`;
+
+  return {
+    riskScore: score,
+    riskLevel,
+    explanation,
+    recommendations: buildRecommendations(riskLevel, payload),
+    originalContent: content,
+    probabilities: buildProbabilities(findings, score),
+    indicators: findings.map(toIndicator),
+  };
+};
+
+// Folds extra indicators (from image context, policies, feeds...) into an existing
+// verdict so riskScore stays the capped sum of indicator weights.
+export const withIndicators = (result: AnalysisResult, extra: RiskIndicator[]): AnalysisResult => {
+  if (extra.length === 0) return result;
+  const added = extra.reduce((sum, ind) => sum + ind.weight, 0);
+  const riskScore = Math.max(0, Math.min(100, result.riskScore + added));
+  const authentic = Math.min(result.probabilities.authentic, 100 - riskScore);
+  const fake = Math.min(result.probabilities.fake, 100 - authentic);
+  return {
+    ...result,
+    riskScore,
+    riskLevel: getRiskLevel(riskScore),
+    explanation: [result.explanation, ...extra.map(ind => ind.description)].join(' '),
+    probabilities: { malicious: 100 - authentic - fake, fake, authentic },
+    indicators: [...result.indicators, ...extra],
+  };
+};
+
+const senderAddress = (from: string): string => (/<([^>]+)>/.exec(from)?.[1] || from).trim().toLowerCase();
+
+// Signals from the email that delivered the code: a brand-claiming sender on an unrelated
+// domain, pressure language in the subject, or a code that leads away from the sender.
+export const emailContextIndicators = (email: EmailContext | undefined, content: string): RiskIndicator[] => {
+  if (!email) return [];
+  const findings: Finding[] = [];
+  const address = senderAddress(email.from);
+  const senderDomain = address.includes('@') ? getRegistrableDomain(address.split('@')[1]) : null;
+  const displayName = email.from.replace(/<[^>]*>/, '').replace(/["']/g, '').toLowerCase();
+
+  if (senderDomain) {
+    for (const [brand, domains] of Object.entries(KNOWN_BRANDS)) {
+      if (displayName.includes(brand) && !domains.includes(senderDomain)) {
+        findings.push({ id: 'sender-brand-mismatch', category: 'brand', weight: 35, kind: 'fake', match: senderDomain, message: `The email claims to be from ${brand} but was sent from ${senderDomain}.` });
+        break;
+      }
+    }
+  }
+
+  const urgency = URGENCY_PATTERN.exec(email.subject);
+  if (urgency) {
+    findings.push({ id: 'email-urgency', category: 'payload', weight: 10, kind: 'fake', match: urgency[1], message: `The email subject uses pressure language ("${urgency[1]}").` });
+  }
+
+  const codeDomain = getPayloadDomain(content);
+  if (senderDomain && codeDomain && codeDomain !== senderDomain) {
+    findings.push({ id: 'email-domain-mismatch', category: 'domain', weight: 15, kind: 'fake', match: codeDomain, message: `The QR code leads to ${codeDomain}, unrelated to the sender's domain ${senderDomain}.` });
+  }
+  return findings.map(toIndicator);
+};
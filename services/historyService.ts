@@ -0,0 +1,93 @@
+import { AnalysisResult, ChatMessage, HistoryEntry, ScanSource } from '../types';
+import { getPayloadDomain } from './heuristicsService';
+
+// Scan history kept in IndexedDB so it survives reloads and never leaves the device.
+
+const DB_NAME = 'qrshield';
+const DB_VERSION = 1;
+const STORE = 'scans';
+const THUMBNAIL_SIZE = 160;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('content', 'content');
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error('Scan history storage is unavailable.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, build: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = build(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+export const createThumbnail = (base64: string): Promise<string | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => resolve(null);
+    img.src = base64;
+  });
+
+export const saveScan = async (
+  analysis: AnalysisResult,
+  source: ScanSource,
+  thumbnail: string | null
+): Promise<HistoryEntry> => {
+  const entry: HistoryEntry = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    source,
+    thumbnail,
+    content: analysis.originalContent,
+    domain: getPayloadDomain(analysis.originalContent),
+    analysis,
+  };
+  await runRequest('readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const listScans = async (): Promise<HistoryEntry[]> => {
+  const entries = await runRequest<HistoryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const findLatestScan = async (content: string): Promise<HistoryEntry | null> => {
+  const matches = await runRequest<HistoryEntry[]>('readonly', store => store.index('content').getAll(content));
+  return matches.reduce<HistoryEntry | null>((latest, e) => (!latest || e.timestamp > latest.timestamp ? e : latest), null);
+};
+
+export const deleteScan = (id: string): Promise<undefined> =>
+  runRequest('readwrite', store => store.delete(id));
+
+export const updateScan = async (id: string, patch: Partial<Pick<HistoryEntry, 'analysis' | 'chat'>>): Promise<void> => {
+  const entry = await runRequest<HistoryEntry | undefined>('readonly', store => store.get(id));
+  if (!entry) return;
+  await runRequest('readwrite', store => store.put({ ...entry, ...patch }));
+};
+
+export const saveChat = (id: string, chat: ChatMessage[]): Promise<void> => updateScan(id, { chat });
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { KNOWN_BRANDS } from './heuristicsService';
+import { inspectHost, toUnicodeHost } from './idnService';
+
+const inspect = (host: string) => inspectHost(host, KNOWN_BRANDS);
+const flagged = (host: string) => inspect(host).suspicious.map(c => c.char).join('');
+
+describe('toUnicodeHost', () => {
+  it('decodes punycode labels', () => {
+    expect(toUnicodeHost('xn--e1afmkfd.xn--p1ai')).toBe('пример.рф');
+  });
+});
+
+describe('inspectHost', () => {
+  it('leaves single-script IDNs alone', () => {
+    for (const host of ['xn--e1afmkfd.xn--p1ai', 'καλημέρα.gr', 'münchen.de']) {
+      const inspection = inspect(host);
+      expect(inspection.suspicious, host).toEqual([]);
+      expect(inspection.mixedScript, host).toBe(false);
+      expect(inspection.brand, host).toBeNull();
+    }
+  });
+
+  it('allows Latin with Japanese, Chinese and Korean writing', () => {
+    for (const host of ['abcマート.jp', 'ひらがなカタカナ漢字.jp', 'shop中文.cn', 'ㄅㄆ中文abc.tw', 'abc한국어.kr']) {
+      expect(inspect(host).mixedScript, host).toBe(false);
+      expect(flagged(host), host).toBe('');
+    }
+  });
+
+  it('flags the foreign characters of a label that mixes scripts', () => {
+    const inspection = inspect('shopмаркет.com');
+    expect(inspection.mixedScript).toBe(true);
+    expect(flagged('shopмаркет.com')).toBe('маркет');
+    expect(inspect('한국ひらがな.kr').mixedScript).toBe(true);
+  });
+
+  it('flags lookalikes of a brand, mixed or written wholly in one script', () => {
+    const mixed = inspect('раypal.com');
+    expect(mixed.brand).toEqual({ name: 'paypal', official: 'paypal.com' });
+    expect(mixed.suspicious.map(c => [c.char, c.codePoint, c.looksLike])).toEqual([['р', 'U+0440', 'p'], ['а', 'U+0430', 'a']]);
+
+    const whole = inspect('аррӏе.com');
+    expect(whole.mixedScript).toBe(false);
+    expect(whole.brand?.name).toBe('apple');
+    expect(flagged('аррӏе.com')).toBe('аррӏе');
+    expect(inspect('paypaℓ.com').brand?.name).toBe('paypal');
+  });
+});
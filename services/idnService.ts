@@ -0,0 +1,173 @@
+// Internationalised host inspection: decodes punycode labels, works out which script
+// each character belongs to, and reduces lookalikes to a Latin skeleton so "раypal"
+// (Cyrillic р and а) compares equal to "paypal".
+
+export interface SuspiciousChar {
+  // Offset into `unicode`, counted in code points.
+  index: number;
+  char: string;
+  codePoint: string;
+  script: string;
+  looksLike: string;
+}
+
+export interface HostInspection {
+  ascii: string;
+  unicode: string;
+  suspicious: SuspiciousChar[];
+  mixedScript: boolean;
+  skeleton: string;
+  // Brand whose name the skeleton spells, when the host is not one of its domains.
+  brand: { name: string; official: string } | null;
+}
+
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+
+const adapt = (delta: number, numPoints: number, firstTime: boolean): number => {
+  delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+  let k = 0;
+  while (delta > ((BASE - T_MIN) * T_MAX) >> 1) {
+    delta = Math.floor(delta / (BASE - T_MIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - T_MIN + 1) * delta) / (delta + SKEW));
+};
+
+const basicValue = (code: number): number => {
+  if (code >= 48 && code <= 57) return code - 22;
+  if (code >= 65 && code <= 90) return code - 65;
+  if (code >= 97 && code <= 122) return code - 97;
+  return BASE;
+};
+
+// RFC 3492 decoder for the part of a label after "xn--".
+export const decodePunycode = (input: string): string => {
+  const basicEnd = Math.max(0, input.lastIndexOf('-'));
+  const output = Array.from(input.slice(0, basicEnd), ch => ch.charCodeAt(0));
+  let n = 128;
+  let bias = 72;
+  let i = 0;
+
+  for (let pos = basicEnd > 0 ? basicEnd + 1 : 0; pos < input.length; ) {
+    const oldI = i;
+    for (let w = 1, k = BASE; ; k += BASE) {
+      if (pos >= input.length) throw new Error('Truncated punycode label.');
+      const digit = basicValue(input.charCodeAt(pos++));
+      if (digit >= BASE) throw new Error('Invalid punycode digit.');
+      i += digit * w;
+      const t = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+      if (digit < t) break;
+      w *= BASE - t;
+    }
+    bias = adapt(i - oldI, output.length + 1, oldI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    output.splice(i++, 0, n);
+  }
+  return String.fromCodePoint(...output);
+};
+
+export const toUnicodeHost = (host: string): string =>
+  host.split('.').map(label => {
+    if (!label.toLowerCase().startsWith('xn--')) return label;
+    try {
+      return decodePunycode(label.slice(4).toLowerCase());
+    } catch {
+      return label;
+    }
+  }).join('.');
+
+// Subset of the Unicode confusables table (UTS #39) covering the Cyrillic, Greek and
+// Armenian letters actually seen in lookalike domains.
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'с': 'c', 'ԁ': 'd', 'е': 'e', 'ё': 'e', 'һ': 'h', 'і': 'i', 'ї': 'i', 'ј': 'j', 'к': 'k',
+  'ӏ': 'l', 'м': 'm', 'п': 'n', 'о': 'o', 'р': 'p', 'ԛ': 'q', 'ѕ': 's', 'т': 't', 'ц': 'u', 'ѵ': 'v', 'ԝ': 'w',
+  'х': 'x', 'у': 'y', 'ү': 'y', 'з': '3', 'ъ': 'b', 'ь': 'b', 'ɡ': 'g', 'ı': 'i', 'ɩ': 'i', 'ℓ': 'l',
+  'α': 'a', 'β': 'b', 'ϲ': 'c', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't',
+  'υ': 'u', 'χ': 'x', 'γ': 'y', 'ω': 'w',
+  'ա': 'w', 'ց': 'g', 'հ': 'h', 'ո': 'n', 'ս': 'u', 'օ': 'o', 'զ': 'q',
+};
+
+const SCRIPTS: Array<[string, RegExp]> = [
+  ['Latin', /\p{Script=Latin}/u],
+  ['Cyrillic', /\p{Script=Cyrillic}/u],
+  ['Greek', /\p{Script=Greek}/u],
+  ['Armenian', /\p{Script=Armenian}/u],
+  ['Cherokee', /\p{Script=Cherokee}/u],
+  ['Han', /\p{Script=Han}/u],
+  ['Hiragana', /\p{Script=Hiragana}/u],
+  ['Katakana', /\p{Script=Katakana}/u],
+  ['Bopomofo', /\p{Script=Bopomofo}/u],
+  ['Hangul', /\p{Script=Hangul}/u],
+];
+
+// Script combinations the UTS #39 "highly restrictive" profile allows within one label:
+// Latin with Japanese, Chinese or Korean writing is how those hosts are normally spelled.
+const ALLOWED_SCRIPT_SETS = [
+  ['Latin', 'Han', 'Hiragana', 'Katakana'],
+  ['Latin', 'Han', 'Bopomofo'],
+  ['Latin', 'Han', 'Hangul'],
+];
+
+const isMixedScript = (scripts: Set<string>): boolean =>
+  scripts.size > 1 && !ALLOWED_SCRIPT_SETS.some(allowed => Array.from(scripts).every(s => allowed.includes(s)));
+
+// Common and Inherited characters (the Japanese long-vowel mark, combining accents,
+// letterlike symbols) are shared between scripts and never make a label mixed.
+const SHARED_SCRIPT = 'Common';
+
+const scriptOf = (ch: string): string | null => {
+  if (/[0-9\-.]/.test(ch)) return null;
+  if (/[\p{Script=Common}\p{Script=Inherited}]/u.test(ch)) return SHARED_SCRIPT;
+  return SCRIPTS.find(([, pattern]) => pattern.test(ch))?.[0] ?? 'Other';
+};
+
+const codePointOf = (ch: string) => `U+${ch.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`;
+
+// Compatibility forms (fullwidth, mathematical letters) fold first, then confusables.
+export const confusableSkeleton = (text: string): string =>
+  Array.from(text.normalize('NFKC').toLowerCase(), ch => CONFUSABLES[ch] ?? ch).join('');
+
+// Characters are flagged only where they are used to deceive: in a label that mixes
+// scripts, or anywhere in a host whose skeleton spells a brand. A label written wholly in
+// one script (пример.рф) is an ordinary IDN.
+export const inspectHost = (host: string, brands: Record<string, string[]>, registrable?: string): HostInspection => {
+  const unicode = toUnicodeHost(host.toLowerCase()).normalize('NFC');
+  const candidates: Array<SuspiciousChar & { mixed: boolean }> = [];
+  let mixedScript = false;
+
+  let offset = 0;
+  for (const label of unicode.split('.')) {
+    const labelChars = Array.from(label);
+    const mixed = isMixedScript(new Set(labelChars.map(scriptOf).filter((s): s is string => !!s && s !== SHARED_SCRIPT)));
+    if (mixed) mixedScript = true;
+    labelChars.forEach((ch, i) => {
+      const script = scriptOf(ch);
+      if (script && script !== 'Latin' && /[^\x00-\x7f]/.test(ch)) {
+        candidates.push({ index: offset + i, char: ch, codePoint: codePointOf(ch), script, looksLike: confusableSkeleton(ch), mixed });
+      }
+    });
+    offset += labelChars.length + 1;
+  }
+
+  const skeleton = confusableSkeleton(unicode);
+  const official = Object.values(brands).flat();
+  let brand: HostInspection['brand'] = null;
+  if (candidates.length > 0 && !official.includes(registrable || '')) {
+    const labels = skeleton.split('.');
+    for (const [name, domains] of Object.entries(brands)) {
+      if (domains.some(d => skeleton === d || skeleton.endsWith(`.${d}`)) || labels.includes(name)) {
+        brand = { name, official: domains.find(d => skeleton === d || skeleton.endsWith(`.${d}`)) || domains[0] };
+        break;
+      }
+    }
+  }
+
+  const suspicious = candidates.filter(c => brand || c.mixed).map(({ mixed: _mixed, ...c }) => c);
+  return { ascii: host.toLowerCase(), unicode, suspicious, mixedScript, skeleton, brand };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { detectFeedFormat, parseFeed } from './intelFeedParser';
+
+const URLHAUS = `################################################################
+# abuse.ch URLhaus Database Dump (CSV)                         #
+# Last updated: 2024-05-01 10:00:00 (UTC)                      #
+# id,dateadded,url,url_status,last_online,threat,tags,urlhaus_link,reporter
+"1","2024-04-30 08:00:00","http://evil.example/pay","online","2024-05-01 09:00:00","malware_download","exe,qr","https://urlhaus.abuse.ch/url/1/","anon"
+`;
+
+const PHISHTANK = JSON.stringify([
+  { url: 'https://phish.example/login', verification_time: '2024-05-02T12:00:00+00:00', target: 'PayPal', phish_detail_url: 'https://phishtank.org/phish_detail.php?phish_id=9' },
+  { url: 42, target: 'Bank' },
+  { url: 'https://other.example/', target: { name: 'Injected' } },
+  'https://not-an-object.example/',
+  null,
+]);
+
+const STIX = JSON.stringify({
+  type: 'bundle',
+  objects: [
+    { type: 'identity', name: 'Example CERT' },
+    { type: 'indicator', id: 'indicator--1', name: 'QR kit', valid_from: '2024-05-03T00:00:00Z', pattern: "[domain-name:value = 'kit.example' OR url:value = 'https://kit.example/a']" },
+    { type: 'indicator', revoked: true, pattern: "[domain-name:value = 'revoked.example']" },
+  ],
+});
+
+describe('detectFeedFormat', () => {
+  it('tells the formats apart by content', () => {
+    expect(detectFeedFormat('feed.txt', URLHAUS)).toBe('urlhaus-csv');
+    expect(detectFeedFormat('feed.json', PHISHTANK)).toBe('phishtank-json');
+    expect(detectFeedFormat('feed.json', STIX)).toBe('stix-bundle');
+    expect(detectFeedFormat('feed.txt', 'https://a.example/\n')).toBe('openphish-txt');
+  });
+});
+
+describe('parseFeed', () => {
+  it('reads URLhaus rows and the dump date', () => {
+    const feed = parseFeed('urlhaus.csv', URLHAUS);
+    expect(feed.publishedAt).toBe('2024-05-01T10:00:00.000Z');
+    expect(feed.entries).toEqual([{
+      kind: 'url', value: 'http://evil.example/pay', threat: 'malware_download', firstSeen: '2024-04-30T08:00:00.000Z', reference: 'https://urlhaus.abuse.ch/url/1/',
+    }]);
+  });
+
+  it('keeps only PhishTank entries with a string URL and ignores non-string fields', () => {
+    const feed = parseFeed('phishtank.json', PHISHTANK);
+    expect(feed.entries).toEqual([
+      { kind: 'url', value: 'https://phish.example/login', threat: 'phishing (PayPal)', firstSeen: '2024-05-02T12:00:00.000Z', reference: 'https://phishtank.org/phish_detail.php?phish_id=9' },
+      { kind: 'url', value: 'https://other.example/', threat: 'phishing', firstSeen: undefined, reference: undefined },
+    ]);
+    expect(feed.publishedAt).toBe('2024-05-02T12:00:00.000Z');
+  });
+
+  it('reads OpenPhish lines that are URLs', () => {
+    expect(parseFeed('openphish.txt', 'https://a.example/x\n# comment\n\nhttp://b.example/\n').entries.map(e => e.value))
+      .toEqual(['https://a.example/x', 'http://b.example/']);
+  });
+
+  it('reads STIX indicator patterns and skips revoked ones', () => {
+    const feed = parseFeed('bundle.json', STIX);
+    expect(feed.name).toBe('Example CERT');
+    expect(feed.entries.map(e => [e.kind, e.value, e.threat])).toEqual([
+      ['host', 'kit.example', 'QR kit'],
+      ['url', 'https://kit.example/a', 'QR kit'],
+    ]);
+  });
+
+  it('rejects JSON that does not parse', () => {
+    expect(() => parseFeed('broken.json', '[{')).toThrow('broken.json is not valid JSON.');
+  });
+});
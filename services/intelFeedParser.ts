@@ -0,0 +1,171 @@
+import { IntelFeedFormat } from '../types';
+
+// Parsers for the public threat-intel dump formats. Each one reduces its feed to flat
+// entries; normalisation and indexing happen in threatIntelService.
+
+export type IntelEntryKind = 'url' | 'host' | 'hash';
+
+export interface IntelEntry {
+  kind: IntelEntryKind;
+  value: string;
+  threat?: string;
+  firstSeen?: string;
+  // Link to the feed's own page for this entry, shown in citations.
+  reference?: string;
+}
+
+export interface ParsedFeed {
+  format: IntelFeedFormat;
+  name: string;
+  publishedAt: string | null;
+  entries: IntelEntry[];
+}
+
+export const FEED_FORMAT_LABELS: Record<IntelFeedFormat, string> = {
+  'urlhaus-csv': 'URLhaus CSV',
+  'phishtank-json': 'PhishTank JSON',
+  'openphish-txt': 'OpenPhish text',
+  'stix-bundle': 'STIX 2.1 bundle',
+};
+
+const toIsoDate = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value.includes('T') || /[zZ]$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// RFC 4180 fields: commas inside quotes, doubled quotes as escapes.
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { fields.push(field); field = ''; }
+    else field += ch;
+  }
+  fields.push(field);
+  return fields;
+};
+
+const URLHAUS_COLUMNS = ['id', 'dateadded', 'url', 'url_status', 'last_online', 'threat', 'tags', 'urlhaus_link', 'reporter'];
+
+const parseUrlhaus = (text: string): ParsedFeed => {
+  let publishedAt: string | null = null;
+  let columns = URLHAUS_COLUMNS;
+  const entries: IntelEntry[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (line.startsWith('#')) {
+      const updated = /Last updated:\s*(.+?)\s*(\(UTC\))?$/i.exec(line);
+      if (updated) publishedAt = toIsoDate(updated[1]) || null;
+      // The column header is the last comment line before the data.
+      const header = line.slice(1).trim();
+      if (header.startsWith('id,')) columns = header.split(',').map(c => c.trim());
+      continue;
+    }
+    const fields = parseCsvLine(line);
+    const row = Object.fromEntries(columns.map((c, i) => [c, fields[i]]));
+    if (!row.url) continue;
+    entries.push({ kind: 'url', value: row.url, threat: row.threat || undefined, firstSeen: toIsoDate(row.dateadded), reference: row.urlhaus_link || undefined });
+  }
+  return { format: 'urlhaus-csv', name: 'URLhaus', publishedAt, entries };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringOf = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const parsePhishTank = (data: unknown): ParsedFeed => {
+  if (!Array.isArray(data)) throw new Error('PhishTank data must be a JSON array.');
+  const entries: IntelEntry[] = [];
+  let latest = 0;
+  for (const item of data) {
+    if (!isRecord(item)) continue;
+    const url = stringOf(item.url);
+    if (!url) continue;
+    const seen = toIsoDate(stringOf(item.verification_time) || stringOf(item.submission_time));
+    if (seen) latest = Math.max(latest, Date.parse(seen));
+    const target = stringOf(item.target);
+    entries.push({
+      kind: 'url',
+      value: url,
+      threat: target && target !== 'Other' ? `phishing (${target})` : 'phishing',
+      firstSeen: seen,
+      reference: stringOf(item.phish_detail_url),
+    });
+  }
+  return { format: 'phishtank-json', name: 'PhishTank', publishedAt: latest ? new Date(latest).toISOString() : null, entries };
+};
+
+const parseOpenPhish = (text: string): ParsedFeed => ({
+  format: 'openphish-txt',
+  name: 'OpenPhish',
+  publishedAt: null,
+  entries: text.split(/\r?\n/).map(l => l.trim()).filter(l => /^https?:\/\//i.test(l)).map(value => ({ kind: 'url' as const, value, threat: 'phishing' })),
+});
+
+// Only the comparison terms QR payloads can hit; other observables are ignored.
+const STIX_TERM = /(url:value|domain-name:value|ipv4-addr:value|ipv6-addr:value|file:hashes\.(?:'[^']+'|"[^"]+"|[\w-]+))\s*=\s*'((?:[^'\\]|\\.)*)'/g;
+
+const parseStix = (data: unknown): ParsedFeed => {
+  if (!isRecord(data) || data.type !== 'bundle' || !Array.isArray(data.objects)) {
+    throw new Error('STIX data must be a bundle with an objects array.');
+  }
+  const objects = data.objects.filter(isRecord);
+  const identity = objects.find(o => o.type === 'identity' && typeof o.name === 'string');
+  const entries: IntelEntry[] = [];
+  let latest = 0;
+
+  for (const obj of objects) {
+    if (obj.type !== 'indicator' || typeof obj.pattern !== 'string') continue;
+    if (obj.revoked) continue;
+    const seen = toIsoDate(stringOf(obj.valid_from) || stringOf(obj.created));
+    if (seen) latest = Math.max(latest, Date.parse(seen));
+    const types = Array.isArray(obj.indicator_types) ? obj.indicator_types.filter(t => typeof t === 'string') : [];
+    const threat = stringOf(obj.name) || (types.length ? types.join(', ') : undefined);
+    for (const [, term, raw] of obj.pattern.matchAll(STIX_TERM)) {
+      const value = raw.replace(/\\(.)/g, '$1');
+      const kind: IntelEntryKind = term === 'url:value' ? 'url' : term.startsWith('file:') ? 'hash' : 'host';
+      entries.push({ kind, value, threat, firstSeen: seen, reference: stringOf(obj.id) });
+    }
+  }
+  return { format: 'stix-bundle', name: stringOf(identity?.name) || 'STIX bundle', publishedAt: latest ? new Date(latest).toISOString() : null, entries };
+};
+
+export const detectFeedFormat = (fileName: string, text: string): IntelFeedFormat => {
+  const head = text.trimStart().slice(0, 2000);
+  if (head.startsWith('{') || head.startsWith('[')) {
+    return /"type"\s*:\s*"bundle"/.test(head) ? 'stix-bundle' : 'phishtank-json';
+  }
+  if (/URLhaus/i.test(head) || /\.csv$/i.test(fileName)) return 'urlhaus-csv';
+  return 'openphish-txt';
+};
+
+export const parseFeed = (fileName: string, text: string): ParsedFeed => {
+  const format = detectFeedFormat(fileName, text);
+  switch (format) {
+    case 'urlhaus-csv':
+      return parseUrlhaus(text);
+    case 'openphish-txt':
+      return parseOpenPhish(text);
+    case 'phishtank-json':
+    case 'stix-bundle': {
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch {
+        throw new Error(`${fileName} is not valid JSON.`);
+      }
+      return format === 'stix-bundle' ? parseStix(data) : parsePhishTank(data);
+    }
+  }
+};
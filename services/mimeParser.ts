@@ -0,0 +1,127 @@
+// Minimal RFC 5322 / MIME reader for .eml files: enough to walk multipart trees,
+// undo transfer encodings and recover headers, text bodies and binary attachments.
+
+export interface MimePart {
+  headers: Record<string, string>;
+  contentType: string;
+  params: Record<string, string>;
+  // Undecoded body as it appears in the message.
+  rawBody: string;
+  parts: MimePart[];
+}
+
+const parseHeaderParams = (value: string): { main: string; params: Record<string, string> } => {
+  const [main, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  for (const piece of rest) {
+    const idx = piece.indexOf('=');
+    if (idx < 0) continue;
+    const key = piece.slice(0, idx).trim().toLowerCase();
+    params[key] = piece.slice(idx + 1).trim().replace(/^"(.*)"$/, '$1');
+  }
+  return { main: main.trim().toLowerCase(), params };
+};
+
+const parseHeaders = (block: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const idx = line.indexOf(':');
+    if (idx <= 0) continue;
+    const key = line.slice(0, idx).trim().toLowerCase();
+    // First occurrence wins, matching how mail clients display From/Subject.
+    if (!(key in headers)) headers[key] = line.slice(idx + 1).trim();
+  }
+  return headers;
+};
+
+export const parseMime = (raw: string): MimePart => {
+  const split = /\r?\n\r?\n/.exec(raw);
+  const headerBlock = split ? raw.slice(0, split.index) : raw;
+  const rawBody = split ? raw.slice(split.index + split[0].length) : '';
+  const headers = parseHeaders(headerBlock);
+  const { main, params } = parseHeaderParams(headers['content-type'] || 'text/plain');
+
+  const parts: MimePart[] = [];
+  if (main.startsWith('multipart/') && params.boundary) {
+    const delimiter = `--${params.boundary}`;
+    const sections = rawBody.split(delimiter).slice(1);
+    for (const section of sections) {
+      if (section.startsWith('--')) break;
+      // The CRLF before each delimiter belongs to the delimiter, not the part body.
+      parts.push(parseMime(section.replace(/^\r?\n/, '').replace(/\r?\n$/, '')));
+    }
+  }
+  return { headers, contentType: main, params, rawBody, parts };
+};
+
+export const flattenParts = (part: MimePart): MimePart[] =>
+  part.parts.length ? part.parts.flatMap(flattenParts) : [part];
+
+const binaryStringToBytes = (binary: string): Uint8Array =>
+  Uint8Array.from(binary, ch => ch.charCodeAt(0) & 0xff);
+
+const decodeQuotedPrintable = (body: string): string =>
+  body.replace(/=\r?\n/g, '').replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+// Message bodies come from whoever sent the mail, so a corrupt base64 run is expected
+// input: null instead of the InvalidCharacterError atob throws.
+const decodeBase64 = (text: string): string | null => {
+  try {
+    return atob(text);
+  } catch {
+    return null;
+  }
+};
+
+const stripBase64 = (body: string): string => body.replace(/[^A-Za-z0-9+/=]/g, '');
+
+// Null when the part claims base64 but its body does not decode.
+export const getPartBytes = (part: MimePart): Uint8Array | null => {
+  const encoding = (part.headers['content-transfer-encoding'] || '').toLowerCase();
+  if (encoding === 'base64') {
+    const binary = decodeBase64(stripBase64(part.rawBody));
+    return binary === null ? null : binaryStringToBytes(binary);
+  }
+  if (encoding === 'quoted-printable') return binaryStringToBytes(decodeQuotedPrintable(part.rawBody));
+  return binaryStringToBytes(part.rawBody);
+};
+
+const decodeText = (bytes: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+export const getPartText = (part: MimePart): string | null => {
+  const bytes = getPartBytes(part);
+  return bytes && decodeText(bytes, part.params.charset);
+};
+
+export const getPartDataUrl = (part: MimePart): string | null => {
+  const bytes = getPartBytes(part);
+  if (!bytes) return null;
+  const encoding = (part.headers['content-transfer-encoding'] || '').toLowerCase();
+  const base64 = encoding === 'base64'
+    ? stripBase64(part.rawBody)
+    : btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''));
+  return `data:${part.contentType};base64,${base64}`;
+};
+
+export const getPartFilename = (part: MimePart): string | null => {
+  const disposition = parseHeaderParams(part.headers['content-disposition'] || '');
+  return disposition.params.filename || part.params.name || null;
+};
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?UGF5cGFs?= in Subject and From. A word that
+// does not decode is left as written.
+export const decodeHeaderValue = (value: string): string =>
+  value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (word: string, charset: string, mode: string, text: string) => {
+      const binary = mode.toUpperCase() === 'B'
+        ? decodeBase64(text)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return binary === null ? word : decodeText(binaryStringToBytes(binary), charset);
+    });
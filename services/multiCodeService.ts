@@ -0,0 +1,122 @@
+import jsQR from 'jsqr';
+import { DetectedCode, Point, RiskIndicator } from '../types';
+import { getPayloadDomain, getSeverity } from './heuristicsService';
+import { inspectQrStructure } from './qrForensicsService';
+
+// jsQR stops at the first code it finds, so each hit is painted out and the frame is
+// decoded again until nothing new turns up.
+
+const MAX_CODES = 8;
+// Grow the mask slightly past the detected corners to cover the quiet zone and finder edges.
+const MASK_GROWTH = 1.12;
+// Codes whose boxes are closer than this fraction of the smaller code are "adjacent".
+const PROXIMITY_RATIO = 0.5;
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const getBounds = (corners: Point[]): Box => ({
+  minX: Math.min(...corners.map(p => p.x)),
+  minY: Math.min(...corners.map(p => p.y)),
+  maxX: Math.max(...corners.map(p => p.x)),
+  maxY: Math.max(...corners.map(p => p.y)),
+});
+
+const growQuad = (corners: Point[], factor: number): Point[] => {
+  const cx = corners.reduce((sum, p) => sum + p.x, 0) / corners.length;
+  const cy = corners.reduce((sum, p) => sum + p.y, 0) / corners.length;
+  return corners.map(p => ({ x: cx + (p.x - cx) * factor, y: cy + (p.y - cy) * factor }));
+};
+
+// Works for convex quads in either winding order.
+const insideQuad = (x: number, y: number, quad: Point[]): boolean => {
+  let sign = 0;
+  for (let i = 0; i < quad.length; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % quad.length];
+    const cross = (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x);
+    if (cross !== 0) {
+      if (sign === 0) sign = Math.sign(cross);
+      else if (Math.sign(cross) !== sign) return false;
+    }
+  }
+  return true;
+};
+
+const maskQuad = (data: Uint8ClampedArray, width: number, height: number, corners: Point[]) => {
+  const quad = growQuad(corners, MASK_GROWTH);
+  const box = getBounds(quad);
+  for (let y = Math.max(0, Math.floor(box.minY)); y < Math.min(height, Math.ceil(box.maxY)); y++) {
+    for (let x = Math.max(0, Math.floor(box.minX)); x < Math.min(width, Math.ceil(box.maxX)); x++) {
+      if (!insideQuad(x + 0.5, y + 0.5, quad)) continue;
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = 255;
+    }
+  }
+};
+
+export const detectAllCodes = (imageData: ImageData): DetectedCode[] => {
+  const { width, height } = imageData;
+  const data = new Uint8ClampedArray(imageData.data);
+  const codes: DetectedCode[] = [];
+
+  for (let i = 0; i < MAX_CODES; i++) {
+    const code = jsQR(data, width, height);
+    if (!code || !code.data) break;
+
+    const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } = code.location;
+    const corners: DetectedCode['corners'] = [topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner];
+    // If masking failed to remove the previous hit we would loop on it forever.
+    const center = { x: (topLeftCorner.x + bottomRightCorner.x) / 2, y: (topLeftCorner.y + bottomRightCorner.y) / 2 };
+    if (codes.some(c => c.data === code.data && c.corners && insideQuad(center.x, center.y, c.corners))) break;
+
+    codes.push({ data: code.data, corners, structure: inspectQrStructure(code, { data, width, height }) });
+    maskQuad(data, width, height, corners);
+  }
+  return codes;
+};
+
+const boxGap = (a: Box, b: Box): number => {
+  const dx = Math.max(0, a.minX - b.maxX, b.minX - a.maxX);
+  const dy = Math.max(0, a.minY - b.maxY, b.minY - a.maxY);
+  return Math.hypot(dx, dy);
+};
+
+// A second code stuck on or right next to the first, pointing somewhere else, is the
+// signature of a sticker-over attack on a legitimate poster.
+export const findStickerConflicts = (codes: DetectedCode[]): RiskIndicator[][] => {
+  const conflicts: RiskIndicator[][] = codes.map(() => []);
+  const boxes = codes.map(c => (c.corners ? getBounds(c.corners) : null));
+  const domains = codes.map(c => getPayloadDomain(c.data));
+
+  for (let i = 0; i < codes.length; i++) {
+    for (let j = i + 1; j < codes.length; j++) {
+      const a = boxes[i];
+      const b = boxes[j];
+      if (!a || !b || !domains[i] || !domains[j] || domains[i] === domains[j]) continue;
+
+      const gap = boxGap(a, b);
+      const size = Math.min(a.maxX - a.minX, b.maxX - b.minX);
+      const overlapping = gap === 0;
+      if (!overlapping && gap > size * PROXIMITY_RATIO) continue;
+
+      const weight = overlapping ? 45 : 30;
+      const relation = overlapping ? 'overlaps' : 'sits right next to';
+      for (const [self, other] of [[i, j], [j, i]]) {
+        conflicts[self].push({
+          id: 'sticker-overlay',
+          category: 'physical',
+          severity: getSeverity(weight),
+          weight,
+          match: domains[self]!,
+          description: `Code #${self + 1} ${relation} code #${other + 1}, which points to a different domain (${domains[self]} vs ${domains[other]}); this is the classic sticker-over attack.`,
+        });
+      }
+    }
+  }
+  return conflicts;
+};
@@ -0,0 +1,82 @@
+import { AnalysisResult, Analyzer, AnalyzerSettings, ChatMessage } from '../types';
+import { ANALYSIS_JSON_SCHEMA, SYSTEM_INSTRUCTION, buildAnalysisPrompt } from './analysisPrompt';
+import { AnalyzerError, RetryOptions, errorFromStatus, parseAnalysisResponse, withRetry } from './responseValidator';
+
+// Any server speaking the OpenAI chat completions API: the hosted service, a gateway,
+// or a local stand-in such as llama.cpp, Ollama or LM Studio.
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:8080/v1';
+
+export type FetchLike = (input: string, init: RequestInit) => Promise<Response>;
+
+// POSTs to /chat/completions and returns the parsed body, mapping failures to AnalyzerError.
+const postCompletion = (config: AnalyzerSettings['openai'], fetchImpl: FetchLike, body: object): Promise<unknown> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  return fetchImpl(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ model: config.model, ...body }),
+  }).then(
+    response => {
+      if (!response.ok) throw errorFromStatus(response.status, 'The analyzer endpoint');
+      return response.json().catch(() => {
+        throw new AnalyzerError('malformed', 'The analyzer endpoint did not return JSON.');
+      });
+    },
+    err => {
+      if (err instanceof AnalyzerError) throw err;
+      throw new AnalyzerError('network', `The analyzer endpoint could not be reached: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  );
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Reads choices[0].message.content from a completion body.
+const completionContent = (data: unknown): string => {
+  const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+  const message = isRecord(choice) ? choice.message : undefined;
+  const content = isRecord(message) ? message.content : undefined;
+  if (typeof content !== 'string') {
+    throw new AnalyzerError('malformed', 'The analyzer endpoint response has no message content.');
+  }
+  return content;
+};
+
+export const createOpenAiAnalyzer = (
+  config: AnalyzerSettings['openai'],
+  fetchImpl: FetchLike = fetch.bind(globalThis),
+  retry?: RetryOptions
+): Analyzer => ({
+  id: 'openai',
+  label: 'OpenAI-compatible endpoint',
+  isAvailable: () => !!config.baseUrl && !!config.model,
+  analyze: async (content: string): Promise<AnalysisResult> => {
+    const data = await withRetry(() => postCompletion(config, fetchImpl, {
+      temperature: 0,
+      messages: [
+        { role: 'system', content: SYSTEM_INSTRUCTION },
+        { role: 'user', content: buildAnalysisPrompt(content) },
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'qr_analysis', schema: ANALYSIS_JSON_SCHEMA },
+      },
+    }), retry);
+    return parseAnalysisResponse(completionContent(data), content);
+  },
+  chat: async (systemInstruction: string, messages: ChatMessage[]): Promise<string> => {
+    const data = await withRetry(() => postCompletion(config, fetchImpl, {
+      messages: [
+        { role: 'system', content: systemInstruction },
+        ...messages.map(m => ({ role: m.role, content: m.content })),
+      ],
+    }), retry);
+    const reply = completionContent(data);
+    if (!reply.trim()) throw new AnalyzerError('malformed', 'The analyzer endpoint returned an empty reply.');
+    return reply.trim();
+  },
+});
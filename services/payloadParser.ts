@@ -0,0 +1,304 @@
+import { ParsedPayload, WifiSecurity } from '../types';
+
+// Turns a decoded QR string into a typed payload. Anything that does not match a
+// known content type falls through to 'url' (if it looks like a link) or 'text'.
+
+const URL_IN_TEXT = /\b((?:https?:\/\/|www\.)[^\s<>"']+)/gi;
+
+export const extractUrls = (text: string): string[] => {
+  return Array.from(text.matchAll(URL_IN_TEXT), m => m[1].replace(/[).,;]+$/, ''));
+};
+
+// MECARD-style fields ("KEY:value;KEY:value;;") with backslash escaping.
+const splitFields = (body: string): Record<string, string[]> => {
+  const fields: Record<string, string[]> = {};
+  let current = '';
+  const flush = () => {
+    const idx = current.indexOf(':');
+    if (idx > 0) {
+      const key = current.slice(0, idx).toUpperCase();
+      (fields[key] ||= []).push(current.slice(idx + 1));
+    }
+    current = '';
+  };
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '\\' && i + 1 < body.length) {
+      current += body[++i];
+    } else if (ch === ';') {
+      flush();
+    } else {
+      current += ch;
+    }
+  }
+  flush();
+  return fields;
+};
+
+// Percent-decoding that keeps the raw text when a scanned payload carries a malformed escape.
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const decodeQueryValue = (value: string | null): string | undefined => {
+  if (value === null || value === '') return undefined;
+  return value;
+};
+
+const parseWifi = (content: string): ParsedPayload => {
+  const fields = splitFields(content.slice('WIFI:'.length));
+  const rawType = (fields.T?.[0] || '').toUpperCase();
+  let security: WifiSecurity = 'unknown';
+  if (rawType === 'NOPASS' || rawType === '') security = 'nopass';
+  else if (rawType.startsWith('WPA') || rawType === 'SAE') security = 'WPA';
+  else if (rawType === 'WEP') security = 'WEP';
+  return {
+    type: 'wifi',
+    ssid: fields.S?.[0] || '',
+    security,
+    password: fields.P?.[0] || undefined,
+    hidden: (fields.H?.[0] || '').toLowerCase() === 'true',
+  };
+};
+
+const parseMatmsg = (content: string): ParsedPayload => {
+  const fields = splitFields(content.slice('MATMSG:'.length));
+  return {
+    type: 'email',
+    to: fields.TO?.[0] || '',
+    subject: fields.SUB?.[0] || undefined,
+    body: fields.BODY?.[0] || undefined,
+  };
+};
+
+const parseMailto = (content: string): ParsedPayload => {
+  const [address, query = ''] = content.slice('mailto:'.length).split('?');
+  const params = new URLSearchParams(query);
+  return {
+    type: 'email',
+    to: safeDecode(address),
+    subject: decodeQueryValue(params.get('subject')),
+    body: decodeQueryValue(params.get('body')),
+  };
+};
+
+const parseSms = (content: string): ParsedPayload => {
+  if (/^smsto:/i.test(content)) {
+    const rest = content.slice('SMSTO:'.length);
+    const idx = rest.indexOf(':');
+    return {
+      type: 'sms',
+      number: idx >= 0 ? rest.slice(0, idx) : rest,
+      message: idx >= 0 ? rest.slice(idx + 1) || undefined : undefined,
+    };
+  }
+  const [number, query = ''] = content.slice('sms:'.length).split('?');
+  return {
+    type: 'sms',
+    number: safeDecode(number),
+    message: decodeQueryValue(new URLSearchParams(query).get('body')),
+  };
+};
+
+const parseVcard = (content: string): ParsedPayload => {
+  const phones: string[] = [];
+  const emails: string[] = [];
+  const urls: string[] = [];
+  let name: string | undefined;
+  let organization: string | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    const idx = line.indexOf(':');
+    if (idx < 0) continue;
+    const key = line.slice(0, idx).split(';')[0].toUpperCase();
+    const value = line.slice(idx + 1).trim();
+    if (key === 'FN') name = value;
+    else if (key === 'N' && !name) name = value.split(';').filter(Boolean).reverse().join(' ');
+    else if (key === 'ORG') organization = value.replace(/;/g, ' ').trim();
+    else if (key === 'TEL') phones.push(value);
+    else if (key === 'EMAIL') emails.push(value);
+    else if (key === 'URL') urls.push(value);
+  }
+  return { type: 'vcard', name, organization, phones, emails, urls };
+};
+
+const parseMecard = (content: string): ParsedPayload => {
+  const fields = splitFields(content.slice('MECARD:'.length));
+  return {
+    type: 'vcard',
+    name: fields.N?.[0]?.split(',').reverse().join(' ').trim() || undefined,
+    organization: fields.ORG?.[0],
+    phones: fields.TEL || [],
+    emails: fields.EMAIL || [],
+    urls: fields.URL || [],
+  };
+};
+
+const parseVevent = (content: string): ParsedPayload => {
+  const values: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const idx = line.indexOf(':');
+    if (idx < 0) continue;
+    const key = line.slice(0, idx).split(';')[0].toUpperCase();
+    if (!(key in values)) values[key] = line.slice(idx + 1).trim();
+  }
+  const urls = [
+    ...(values.URL ? [values.URL] : []),
+    ...extractUrls(`${values.DESCRIPTION || ''} ${values.LOCATION || ''}`),
+  ];
+  return {
+    type: 'vevent',
+    summary: values.SUMMARY,
+    start: values.DTSTART,
+    end: values.DTEND,
+    location: values.LOCATION,
+    description: values.DESCRIPTION,
+    urls: Array.from(new Set(urls)),
+  };
+};
+
+const parseGeo = (content: string): ParsedPayload | null => {
+  const match = /^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)(?:,[^?]*)?(?:\?q=(.*))?$/i.exec(content);
+  if (!match) return null;
+  return {
+    type: 'geo',
+    latitude: parseFloat(match[1]),
+    longitude: parseFloat(match[2]),
+    query: match[3] ? safeDecode(match[3]) : undefined,
+  };
+};
+
+const parseUpi = (content: string): ParsedPayload => {
+  const query = content.slice(content.indexOf('?') + 1);
+  const params = new URLSearchParams(query);
+  return {
+    type: 'upi',
+    payeeAddress: params.get('pa') || '',
+    payeeName: decodeQueryValue(params.get('pn')),
+    amount: decodeQueryValue(params.get('am')),
+    currency: decodeQueryValue(params.get('cu')),
+    note: decodeQueryValue(params.get('tn')),
+  };
+};
+
+// CRC-16/CCITT-FALSE as mandated by the EMVCo merchant-presented QR specification.
+const emvCrc = (data: string): string => {
+  let crc = 0xffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+const parseTlv = (data: string): Array<{ tag: string; value: string; offset: number }> | null => {
+  const entries: Array<{ tag: string; value: string; offset: number }> = [];
+  let pos = 0;
+  while (pos < data.length) {
+    const tag = data.slice(pos, pos + 2);
+    const length = parseInt(data.slice(pos + 2, pos + 4), 10);
+    if (!/^\d{2}$/.test(tag) || Number.isNaN(length) || pos + 4 + length > data.length) return null;
+    entries.push({ tag, value: data.slice(pos + 4, pos + 4 + length), offset: pos });
+    pos += 4 + length;
+  }
+  return entries;
+};
+
+const parseEmv = (content: string): ParsedPayload | null => {
+  const entries = parseTlv(content);
+  if (!entries || entries[0]?.tag !== '00') return null;
+
+  const get = (tag: string) => entries.find(e => e.tag === tag)?.value;
+  const accounts: string[] = [];
+  for (const entry of entries) {
+    const tagNum = parseInt(entry.tag, 10);
+    if (tagNum < 2 || tagNum > 51) continue;
+    const nested = tagNum >= 26 ? parseTlv(entry.value) : null;
+    accounts.push(nested ? nested.map(n => n.value).join(' / ') : entry.value);
+  }
+
+  const crcEntry = entries.find(e => e.tag === '63');
+  const crcValid = !!crcEntry && emvCrc(content.slice(0, crcEntry.offset + 4)) === crcEntry.value.toUpperCase();
+
+  return {
+    type: 'emv',
+    merchantName: get('59'),
+    merchantCity: get('60'),
+    countryCode: get('58'),
+    currency: get('53'),
+    amount: get('54'),
+    accounts,
+    crcValid,
+  };
+};
+
+const looksLikeUrl = (content: string): boolean => {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(content)) return true;
+  if (/^(javascript|data|vbscript|file):/i.test(content)) return true;
+  return /^(www\.)?[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}(:\d+)?([/?#]\S*)?$/i.test(content);
+};
+
+export const parsePayload = (content: string): ParsedPayload => {
+  const trimmed = content.trim();
+  const upper = trimmed.toUpperCase();
+
+  if (upper.startsWith('WIFI:')) return parseWifi(trimmed);
+  if (upper.startsWith('MATMSG:')) return parseMatmsg(trimmed);
+  if (upper.startsWith('MAILTO:')) return parseMailto(trimmed);
+  if (upper.startsWith('SMSTO:') || upper.startsWith('SMS:')) return parseSms(trimmed);
+  if (upper.startsWith('TEL:')) return { type: 'tel', number: safeDecode(trimmed.slice(4)) };
+  if (upper.startsWith('BEGIN:VCARD')) return parseVcard(trimmed);
+  if (upper.startsWith('MECARD:')) return parseMecard(trimmed);
+  if (upper.startsWith('BEGIN:VEVENT') || upper.startsWith('BEGIN:VCALENDAR')) return parseVevent(trimmed);
+  if (upper.startsWith('UPI://')) return parseUpi(trimmed);
+  if (upper.startsWith('GEO:')) {
+    const geo = parseGeo(trimmed);
+    if (geo) return geo;
+  }
+  if (trimmed.startsWith('000201')) {
+    const emv = parseEmv(trimmed);
+    if (emv) return emv;
+  }
+  if (looksLikeUrl(trimmed)) return { type: 'url', url: trimmed };
+  return { type: 'text', text: content };
+};
+
+export const PAYLOAD_LABELS: Record<ParsedPayload['type'], string> = {
+  url: 'Web Link',
+  wifi: 'Wi-Fi Network',
+  email: 'Email Message',
+  sms: 'SMS Message',
+  tel: 'Phone Call',
+  vcard: 'Contact Card',
+  vevent: 'Calendar Event',
+  geo: 'Geo Location',
+  upi: 'UPI Payment',
+  emv: 'EMV Payment',
+  text: 'Plain Text',
+};
+
+export const MAX_MANUAL_PAYLOADS = 25;
+
+const URL_TOKEN = /^(?:[a-z][a-z0-9+.-]*:\/\/|www\.)\S+$/i;
+
+// Splits typed or pasted input into payloads. With `perLine` every non-empty line is one;
+// otherwise input made only of URLs is split on whitespace and commas, and anything else is
+// kept whole, since vCards, Wi-Fi configs and mail templates span several lines.
+export const splitManualInput = (input: string, perLine: boolean): string[] => {
+  const text = input.trim();
+  if (!text) return [];
+  let payloads: string[];
+  if (perLine) {
+    payloads = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  } else {
+    const tokens = text.split(/[\s,]+/).filter(Boolean);
+    payloads = tokens.length > 1 && tokens.every(t => URL_TOKEN.test(t)) ? tokens : [text];
+  }
+  return Array.from(new Set(payloads)).slice(0, MAX_MANUAL_PAYLOADS);
+};
@@ -0,0 +1,5 @@
+// pdfjs-dist ships no typings for its worker bundle; it is only imported for its side effect
+// of exposing WorkerMessageHandler so pdf.js can run without a separate worker file.
+declare module 'pdfjs-dist/build/pdf.worker.min.mjs' {
+  export const WorkerMessageHandler: unknown;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { OrgPolicy, RiskIndicator, RiskLevel } from '../types';
+import { analyzeLocally } from './heuristicsService';
+import { EMPTY_POLICY, applyPolicy, evaluatePolicy, trustedResult } from './policyService';
+
+const ACME: OrgPolicy = { ...EMPTY_POLICY, brands: [{ name: 'acmebank', domains: ['acmebank.com'] }] };
+
+const brandMatches = (content: string) =>
+  evaluatePolicy(content, ACME).matches.filter(m => m.kind === 'protected-brand').map(m => m.value);
+
+describe('evaluatePolicy protected brands', () => {
+  it('does not flag the brand\'s listed domains', () => {
+    expect(brandMatches('https://acmebank.com/login')).toEqual([]);
+    expect(brandMatches('https://online.acmebank.com/')).toEqual([]);
+  });
+
+  it('flags the brand name on any domain the organisation did not list', () => {
+    expect(brandMatches('https://acmebank.co/login')).toEqual(['acmebank.co']);
+    expect(brandMatches('https://acmebank.cm/')).toEqual(['acmebank.cm']);
+    expect(brandMatches('https://secure-acmebank.help/')).toEqual(['secure-acmebank.help']);
+  });
+});
+
+describe('applyPolicy on a trusted domain', () => {
+  const TRUSTED: OrgPolicy = { ...EMPTY_POLICY, trustedDomains: ['intranet.example'] };
+  const PAYLOAD = 'https://intranet.example/sso';
+  const evaluation = evaluatePolicy(PAYLOAD, TRUSTED);
+
+  const feedHit: RiskIndicator = {
+    id: 'threat-intel-match', category: 'intel', severity: 'critical', weight: 90, match: PAYLOAD, description: 'Listed by URLhaus.',
+  };
+
+  it('caps the analyzer score at LOW', () => {
+    const analyzed = { ...analyzeLocally(PAYLOAD), riskScore: 70 };
+    const result = applyPolicy(analyzed, evaluation);
+    expect(evaluation.trusted).toBe(true);
+    expect(result.riskScore).toBe(19);
+    expect(result.riskLevel).toBe(RiskLevel.LOW);
+  });
+
+  it('keeps evidence about the code itself above the cap', () => {
+    const result = applyPolicy(trustedResult(PAYLOAD, evaluation), evaluation, [feedHit]);
+    expect(result.riskScore).toBe(90);
+    expect(result.indicators.map(ind => ind.id)).toEqual(['threat-intel-match']);
+    expect(result.policyMatches?.map(m => m.kind)).toEqual(['trusted']);
+  });
+});
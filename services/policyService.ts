@@ -0,0 +1,194 @@
+import { AnalysisResult, OrgPolicy, PolicyMatch, ProtectedBrand, RiskIndicator } from '../types';
+import { KNOWN_BRANDS, brandIndicator, getRiskLevel, parseUrl, withIndicators } from './heuristicsService';
+import { extractUrls } from './payloadParser';
+
+// Organisation allow/deny lists and protected brands. A blocked match forces CRITICAL;
+// a payload whose every destination is trusted skips analysis and stays LOW.
+
+export const POLICY_SCHEMA = 'qrshield.policy';
+export const POLICY_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY = 'qrshield.policy';
+// Highest score that still maps to RiskLevel.LOW.
+const TRUSTED_SCORE_CAP = 19;
+
+export const EMPTY_POLICY: OrgPolicy = { trustedDomains: [], blockedDomains: [], blockedPatterns: [], brands: [] };
+
+export interface PolicyEvaluation {
+  matches: PolicyMatch[];
+  trusted: boolean;
+  blocked: boolean;
+  indicators: RiskIndicator[];
+}
+
+const normalizeDomain = (value: string) => value.trim().toLowerCase().replace(/^\*\./, '').replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBrand = (value: unknown): value is ProtectedBrand =>
+  isRecord(value) && typeof value.name === 'string' && isStringArray(value.domains);
+
+const cleanList = (values: string[], normalize: (v: string) => string = v => v.trim()) =>
+  Array.from(new Set(values.map(normalize).filter(Boolean)));
+
+export const normalizePolicy = (policy: OrgPolicy): OrgPolicy => ({
+  trustedDomains: cleanList(policy.trustedDomains, normalizeDomain),
+  blockedDomains: cleanList(policy.blockedDomains, normalizeDomain),
+  // A pattern of only wildcards would block every payload.
+  blockedPatterns: cleanList(policy.blockedPatterns).filter(pattern => /[^*]/.test(pattern)),
+  brands: policy.brands
+    .map(b => ({ name: b.name.trim().toLowerCase(), domains: cleanList(b.domains, normalizeDomain) }))
+    .filter(b => b.name && b.domains.length > 0),
+});
+
+export const loadPolicy = (): OrgPolicy => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePolicy(stored) : EMPTY_POLICY;
+  } catch {
+    return EMPTY_POLICY;
+  }
+};
+
+export const savePolicy = (policy: OrgPolicy) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(policy));
+};
+
+// Accepts the exported document or a bare policy object.
+export const parsePolicy = (json: string): OrgPolicy => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The policy file is not valid JSON.');
+  }
+  if (!isRecord(data)) throw new Error('The policy file must contain a JSON object.');
+  if (data.schema !== undefined && data.schema !== POLICY_SCHEMA) {
+    throw new Error(`Expected a ${POLICY_SCHEMA} document, got ${String(data.schema)}.`);
+  }
+  const policy = data.policy ?? data;
+  if (!isRecord(policy)) throw new Error('"policy" must be an object.');
+
+  const list = (key: 'trustedDomains' | 'blockedDomains' | 'blockedPatterns'): string[] => {
+    const value = policy[key] ?? [];
+    if (!isStringArray(value)) throw new Error(`"${key}" must be a list of strings.`);
+    return value;
+  };
+  const brands = policy.brands ?? [];
+  if (!Array.isArray(brands) || !brands.every(isBrand)) {
+    throw new Error('"brands" must be a list of { name, domains } entries.');
+  }
+  return normalizePolicy({
+    trustedDomains: list('trustedDomains'),
+    blockedDomains: list('blockedDomains'),
+    blockedPatterns: list('blockedPatterns'),
+    brands,
+  });
+};
+
+export const serializePolicy = (policy: OrgPolicy): string =>
+  JSON.stringify({ schema: POLICY_SCHEMA, schemaVersion: POLICY_SCHEMA_VERSION, policy }, null, 2);
+
+const domainMatches = (host: string, rule: string) => host === rule || host.endsWith(`.${rule}`);
+
+// Wildcards only; user-supplied regular expressions could hang the scan. An empty match
+// is no match.
+const wildcardMatch = (text: string, pattern: string): string | null => {
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*?');
+  return new RegExp(source, 'i').exec(text)?.[0] || null;
+};
+
+const payloadHosts = (content: string, extraUrls: string[]): string[] => {
+  const direct = parseUrl(content);
+  const urls = [...(direct ? [direct] : extractUrls(content).map(parseUrl)), ...extraUrls.map(parseUrl)];
+  return Array.from(new Set(urls.filter((u): u is URL => !!u?.hostname).map(u => u.hostname.toLowerCase())));
+};
+
+// `extraUrls` are further destinations of the same payload, such as redirect hops.
+export const evaluatePolicy = (content: string, policy: OrgPolicy, extraUrls: string[] = []): PolicyEvaluation => {
+  const hosts = payloadHosts(content, extraUrls);
+  const matches: PolicyMatch[] = [];
+  const indicators: RiskIndicator[] = [];
+
+  for (const host of hosts) {
+    const blocked = policy.blockedDomains.find(rule => domainMatches(host, rule));
+    if (blocked) {
+      matches.push({ kind: 'blocked-domain', rule: blocked, value: host });
+      indicators.push({ id: 'policy-blocked-domain', category: 'domain', severity: 'critical', weight: 100, match: host, description: `${host} is on the organisation block list (${blocked}).` });
+    }
+  }
+  for (const pattern of policy.blockedPatterns) {
+    const hit = wildcardMatch(content, pattern);
+    if (hit !== null) {
+      matches.push({ kind: 'blocked-pattern', rule: pattern, value: hit });
+      indicators.push({ id: 'policy-blocked-pattern', category: 'payload', severity: 'critical', weight: 100, match: hit, description: `The payload matches the blocked pattern "${pattern}".` });
+    }
+  }
+
+  for (const host of hosts) {
+    for (const brand of policy.brands) {
+      const ind = brandIndicator(host, { [brand.name]: brand.domains });
+      if (!ind) continue;
+      matches.push({ kind: 'protected-brand', rule: brand.name, value: host });
+      indicators.push({ ...ind, description: `Protected brand: ${ind.description}` });
+      break;
+    }
+  }
+
+  const flagged = matches.length > 0;
+  const trustedBy = hosts.map(host => policy.trustedDomains.find(rule => domainMatches(host, rule)));
+  const trusted = !flagged && hosts.length > 0 && trustedBy.every(Boolean);
+  if (trusted) {
+    hosts.forEach((host, i) => matches.push({ kind: 'trusted', rule: trustedBy[i]!, value: host }));
+  }
+  return { matches, trusted, blocked: matches.some(m => m.kind === 'blocked-domain' || m.kind === 'blocked-pattern'), indicators };
+};
+
+// Built-in brands plus the organisation's own, for checks that look for brand names.
+export const brandDirectory = (policy: OrgPolicy): Record<string, string[]> => ({
+  ...KNOWN_BRANDS,
+  ...Object.fromEntries(policy.brands.map(b => [b.name.toLowerCase(), b.domains])),
+});
+
+// Trusted payloads skip the analyzers entirely.
+export const trustedResult = (content: string, evaluation: PolicyEvaluation): AnalysisResult => ({
+  riskScore: 0,
+  riskLevel: getRiskLevel(0),
+  explanation: `Every destination in this payload is on the organisation trust list (${evaluation.matches.map(m => m.rule).join(', ')}).`,
+  recommendations: ['This code points at a domain your organisation trusts.', 'Still check that the printed code has not been covered by a sticker.'],
+  originalContent: content,
+  probabilities: { malicious: 0, fake: 0, authentic: 100 },
+  indicators: [],
+  policyMatches: evaluation.matches,
+});
+
+const applyEvaluation = (result: AnalysisResult, evaluation: PolicyEvaluation): AnalysisResult => {
+  if (evaluation.matches.length === 0) return result;
+  const present = new Set(result.indicators.map(ind => `${ind.id}|${ind.match}`));
+  const merged = withIndicators(result, evaluation.indicators.filter(ind => !present.has(`${ind.id}|${ind.match}`)));
+
+  if (evaluation.blocked) {
+    return { ...merged, riskScore: 100, riskLevel: getRiskLevel(100), probabilities: { malicious: 100, fake: 0, authentic: 0 }, policyMatches: evaluation.matches };
+  }
+  if (evaluation.trusted && merged.riskScore > TRUSTED_SCORE_CAP) {
+    const { malicious, fake } = merged.probabilities;
+    const share = malicious + fake > 0 ? malicious / (malicious + fake) : 0;
+    return {
+      ...merged,
+      riskScore: TRUSTED_SCORE_CAP,
+      riskLevel: getRiskLevel(TRUSTED_SCORE_CAP),
+      probabilities: { malicious: Math.round(TRUSTED_SCORE_CAP * share), fake: TRUSTED_SCORE_CAP - Math.round(TRUSTED_SCORE_CAP * share), authentic: 100 - TRUSTED_SCORE_CAP },
+      policyMatches: evaluation.matches,
+    };
+  }
+  return { ...merged, policyMatches: evaluation.matches };
+};
+
+// `evidence` is what is known about this particular code (feed hits, sticker conflicts,
+// structural tampering). It is added after the trust cap: a trusted domain can be
+// compromised, and a listed URL on it must not read as LOW.
+export const applyPolicy = (result: AnalysisResult, evaluation: PolicyEvaluation, evidence: RiskIndicator[] = []): AnalysisResult =>
+  withIndicators(applyEvaluation(result, evaluation), evidence);
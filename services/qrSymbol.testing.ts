@@ -0,0 +1,155 @@
+import { ImageSource } from './qrForensicsService';
+import { QrEcLevel } from '../types';
+
+// Test-only version 1 QR encoder. It takes the data codewords as given, so a test can put
+// anything in the padding, and can corrupt codewords after error correction is added.
+
+const DIM = 21;
+const TOTAL_CODEWORDS = 26;
+const DATA_CODEWORDS: Record<QrEcLevel, number> = { L: 19, M: 16, Q: 13, H: 9 };
+const EC_FORMAT_BITS: Record<QrEcLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+const MODULE_PX = 8;
+const QUIET_ZONE = 4;
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(y / 2) + Math.floor(x / 3)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const gfMul = (a: number, b: number): number => {
+  let product = 0;
+  for (; b; b >>= 1) {
+    if (b & 1) product ^= a;
+    a <<= 1;
+    if (a & 0x100) a ^= 0x11d;
+  }
+  return product;
+};
+
+const reedSolomon = (data: number[], ecLength: number): number[] => {
+  // Generator (x - a^0)(x - a^1)...(x - a^(ecLength-1)), highest degree first.
+  let generator = [1];
+  for (let i = 0, root = 1; i < ecLength; i++, root = gfMul(root, 2)) {
+    generator = [...generator, 0].map((coef, k) => coef ^ (k > 0 ? gfMul(generator[k - 1], root) : 0));
+  }
+  const remainder = new Array<number>(ecLength).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ remainder.shift()!;
+    remainder.push(0);
+    for (let k = 0; k < ecLength; k++) remainder[k] ^= gfMul(generator[k + 1], factor);
+  }
+  return remainder;
+};
+
+// Byte-mode segment, terminator and bit padding, followed by `padding` bytes (the standard
+// 0xEC 0x11 alternation unless given).
+export const byteModeCodewords = (text: string, ecLevel: QrEcLevel, padding?: number[]): number[] => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  const bits = [0, 1, 0, 0, ...Array.from({ length: 8 }, (_, i) => (bytes.length >> (7 - i)) & 1)];
+  for (const byte of bytes) for (let i = 7; i >= 0; i--) bits.push((byte >> i) & 1);
+  const capacity = DATA_CODEWORDS[ecLevel];
+  bits.push(...new Array(Math.min(4, capacity * 8 - bits.length)).fill(0));
+  while (bits.length % 8) bits.push(0);
+  const codewords = Array.from({ length: bits.length / 8 }, (_, i) => bits.slice(i * 8, i * 8 + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  const fill = padding || [];
+  for (let i = 0; codewords.length < capacity; i++) codewords.push(fill[i] ?? (i % 2 === 0 ? 0xec : 0x11));
+  return codewords;
+};
+
+export interface SymbolOptions {
+  ecLevel: QrEcLevel;
+  mask: number;
+  // Codeword positions (in placement order, data then EC) whose value is flipped after
+  // error correction was computed, as a covered or scratched area would.
+  damage?: number[];
+}
+
+const formatBits = (ecLevel: QrEcLevel, mask: number): number => {
+  const data = (EC_FORMAT_BITS[ecLevel] << 3) | mask;
+  let remainder = data << 10;
+  for (let bit = 14; bit >= 10; bit--) if (remainder & (1 << bit)) remainder ^= 0x537 << (bit - 10);
+  return ((data << 10) | remainder) ^ 0x5412;
+};
+
+const buildModules = (codewords: number[], { ecLevel, mask }: SymbolOptions): boolean[][] => {
+  const dark = Array.from({ length: DIM }, () => new Array<boolean>(DIM).fill(false));
+  const reserved = Array.from({ length: DIM }, () => new Array<boolean>(DIM).fill(false));
+  const set = (x: number, y: number, value: boolean) => {
+    dark[y][x] = value;
+    reserved[y][x] = true;
+  };
+
+  for (const [fx, fy] of [[0, 0], [DIM - 7, 0], [0, DIM - 7]]) {
+    for (let dy = -1; dy <= 7; dy++) {
+      for (let dx = -1; dx <= 7; dx++) {
+        const x = fx + dx;
+        const y = fy + dy;
+        if (x < 0 || y < 0 || x >= DIM || y >= DIM) continue;
+        const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+        set(x, y, ring !== 2 && ring !== 4);
+      }
+    }
+  }
+  for (let i = 8; i < DIM - 8; i++) {
+    set(i, 6, i % 2 === 0);
+    set(6, i, i % 2 === 0);
+  }
+  set(8, DIM - 8, true);
+
+  const format = formatBits(ecLevel, mask);
+  const bit = (k: number) => ((format >> (14 - k)) & 1) === 1;
+  const first: Array<[number, number]> = [];
+  for (let x = 0; x <= 8; x++) if (x !== 6) first.push([x, 8]);
+  for (let y = 7; y >= 0; y--) if (y !== 6) first.push([8, y]);
+  const second: Array<[number, number]> = [];
+  for (let y = DIM - 1; y >= DIM - 7; y--) second.push([8, y]);
+  for (let x = DIM - 8; x < DIM; x++) second.push([x, 8]);
+  first.forEach(([x, y], k) => set(x, y, bit(k)));
+  second.forEach(([x, y], k) => set(x, y, bit(k)));
+
+  let index = 0;
+  let upward = true;
+  for (let right = DIM - 1; right > 0; right -= 2) {
+    if (right === 6) right--;
+    for (let i = 0; i < DIM; i++) {
+      const y = upward ? DIM - 1 - i : i;
+      for (const x of [right, right - 1]) {
+        if (reserved[y][x]) continue;
+        const value = ((codewords[index >> 3] >> (7 - (index & 7))) & 1) === 1;
+        dark[y][x] = value !== MASKS[mask](x, y);
+        index++;
+      }
+    }
+    upward = !upward;
+  }
+  return dark;
+};
+
+// RGBA image of the symbol with a quiet zone, ready for jsQR and inspectQrStructure.
+export const renderSymbol = (data: number[], options: SymbolOptions): ImageSource => {
+  const ec = reedSolomon(data, TOTAL_CODEWORDS - data.length);
+  const codewords = [...data, ...ec];
+  for (const position of options.damage || []) codewords[position] ^= 0xff;
+  const modules = buildModules(codewords, options);
+
+  const size = (DIM + QUIET_ZONE * 2) * MODULE_PX;
+  const pixels = new Uint8ClampedArray(size * size * 4).fill(255);
+  for (let y = 0; y < DIM; y++) {
+    for (let x = 0; x < DIM; x++) {
+      if (!modules[y][x]) continue;
+      for (let py = 0; py < MODULE_PX; py++) {
+        for (let px = 0; px < MODULE_PX; px++) {
+          const offset = (((y + QUIET_ZONE) * MODULE_PX + py) * size + (x + QUIET_ZONE) * MODULE_PX + px) * 4;
+          pixels.fill(0, offset, offset + 3);
+        }
+      }
+    }
+  }
+  return { data: pixels, width: size, height: size };
+};
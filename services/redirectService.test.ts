@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createProxyFetcher, resolveRedirectChain, resolveRedirects, unwrapUrl } from './redirectService';
+import { StubProxy, StubRoute, startStubProxy } from './stubProxy.testing';
+
+let proxy: StubProxy | null = null;
+
+const serve = async (route: StubRoute) => {
+  proxy = await startStubProxy(route);
+  return createProxyFetcher(proxy.url, undefined, 200);
+};
+
+afterEach(async () => {
+  await proxy?.close();
+  proxy = null;
+  vi.restoreAllMocks();
+});
+
+const redirectTo = (location: string, status = 302) => ({ status, headers: { Location: location } });
+
+describe('resolveRedirects through the proxy', () => {
+  it('stops after the configured number of hops', async () => {
+    const fetcher = await serve(target => redirectTo(`https://hop.test/${Number(new URL(target).pathname.slice(1)) + 1}`));
+    const hops = await resolveRedirects('https://hop.test/0', 3, fetcher);
+    expect(hops.map(h => h.url)).toEqual(['https://hop.test/0', 'https://hop.test/1', 'https://hop.test/2', 'https://hop.test/3']);
+    expect(proxy?.requests).toHaveLength(3);
+  });
+
+  it('ends the chain when a hop loops back', async () => {
+    const fetcher = await serve(target => redirectTo(target.endsWith('/a') ? 'https://loop.test/b' : 'https://loop.test/a'));
+    const hops = await resolveRedirects('https://loop.test/a', 10, fetcher);
+    expect(hops.map(h => h.url)).toEqual(['https://loop.test/a', 'https://loop.test/b']);
+  });
+
+  it('resolves relative Location headers and meta refreshes against the current hop', async () => {
+    const fetcher = await serve(target => {
+      if (target === 'https://rel.test/app/start') return redirectTo('../login?next=1', 301);
+      if (target === 'https://rel.test/login?next=1') return { status: 200, body: '<meta http-equiv="refresh" content="0; url=/final">' };
+      return { status: 200, body: '<p>done</p>' };
+    });
+    const hops = await resolveRedirects('https://rel.test/app/start', 5, fetcher);
+    expect(hops).toEqual([
+      { url: 'https://rel.test/app/start', via: 'scan' },
+      { url: 'https://rel.test/login?next=1', via: 'http', detail: 'HTTP 301' },
+      { url: 'https://rel.test/final', via: 'meta-refresh' },
+    ]);
+  });
+
+  it('gives up on a proxy that does not answer in time', async () => {
+    const fetcher = await serve(() => 'hang');
+    await expect(fetcher('https://slow.test/')).rejects.toThrow('did not answer within 0.2s');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const hops = await resolveRedirects('https://slow.test/', 5, fetcher);
+    expect(hops).toEqual([{ url: 'https://slow.test/', via: 'scan' }]);
+  });
+
+  it.each([
+    ['null', 'no JSON object'],
+    ['"302"', 'no JSON object'],
+    ['{"status":"302"}', 'no numeric status'],
+    ['{"status":302,"headers":["location"]}', 'headers that are not an object'],
+    ['{"status":302,"headers":{"location":1}}', 'a non-string location header'],
+    ['{"status":200,"body":{}}', 'a body that is not a string'],
+  ])('rejects a proxy answer of %s', async (answer, problem) => {
+    const fetcher = createProxyFetcher('https://proxy.test/fetch', async () => new Response(answer));
+    await expect(fetcher('https://odd.test/')).rejects.toThrow(`The redirect proxy answer has ${problem}.`);
+  });
+});
+
+describe('unwrapUrl', () => {
+  it('reads tracking parameters only on tracker hosts', () => {
+    expect(unwrapUrl('https://click.mailer.shop.com/?url=https://evil.xyz/a')).toEqual({ url: 'https://evil.xyz/a', wrapper: 'Tracking redirect' });
+    expect(unwrapUrl('https://example.com/login?redirect=https://sso.okta.com/x')).toBeNull();
+  });
+});
+
+describe('resolveRedirectChain', () => {
+  const config = { follow: false, maxHops: 5, proxyUrl: '' };
+
+  it('does not count findings the scanned link already has', async () => {
+    const { chain, indicators } = await resolveRedirectChain('http://www.google.com/url?q=http://evil.xyz', config);
+    expect(chain).toHaveLength(2);
+    expect(indicators.map(ind => ind.id)).toEqual(['suspicious-tld', 'hidden-destination']);
+  });
+
+  it('leaves a login return address alone', async () => {
+    expect(await resolveRedirectChain('https://example.com/login?redirect=https://sso.okta.com/x', config)).toEqual({ chain: [], indicators: [] });
+  });
+});
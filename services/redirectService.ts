@@ -0,0 +1,242 @@
+import { AnalyzerSettings, RedirectHop, RedirectVia, RiskIndicator } from '../types';
+import { analyzeLocally, getRegistrableDomain, getSeverity, parseUrl } from './heuristicsService';
+
+// Follows a scanned link to where it really goes. Wrapper and tracking formats are
+// decoded offline; HTTP 30x and meta-refresh hops need a HopFetcher, because browsers
+// hide cross-origin redirect responses from page scripts.
+
+interface RawHop {
+  url: string;
+  via: RedirectVia;
+  detail?: string;
+}
+
+export interface HopResponse {
+  status: number;
+  // Lower-cased header names.
+  headers: Record<string, string>;
+  body: string;
+}
+
+export type HopFetcher = (url: string) => Promise<HopResponse>;
+
+// Query parameters that tracking and click-through redirectors use for the target.
+const TRACKING_PARAMS = ['url', 'u', 'target', 'dest', 'destination', 'redirect', 'redirect_url', 'link'];
+
+// Only these hosts are read through TRACKING_PARAMS. On an ordinary site the same names are
+// login return addresses and share links, which say nothing about where the link goes.
+const TRACKER_HOSTS = [
+  /^l\.instagram\.com$/,
+  /^away\.vk\.com$/,
+  /^out\.reddit\.com$/,
+  /^(www\.)?bing\.com$/,
+  /^steamcommunity\.com$/,
+  /^exit\.sc$/,
+  /^(click|clicks|track|tracking|links?|redirect|r)\.[a-z0-9-]+\.[a-z.]+$/,
+];
+
+// How long the proxy gets to answer for a single hop.
+export const HOP_TIMEOUT_MS = 8000;
+
+const param = (url: URL, ...names: string[]): string | null => {
+  for (const name of names) {
+    const value = url.searchParams.get(name);
+    if (value) return value;
+  }
+  return null;
+};
+
+const asHttpUrl = (value: string | null): string | null => {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// Proofpoint v2 encodes the target with '-' for '%' and '_' for '/'.
+const decodeUrlDefenseV2 = (value: string): string | null => {
+  try {
+    return decodeURIComponent(value.replace(/-/g, '%').replace(/_/g, '/'));
+  } catch {
+    return null;
+  }
+};
+
+export const unwrapUrl = (raw: string): { url: string; wrapper: string } | null => {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase();
+  const found = (wrapper: string, target: string | null) => {
+    const next = asHttpUrl(target);
+    return next && next !== url.href ? { url: next, wrapper } : null;
+  };
+
+  if (host.endsWith('.safelinks.protection.outlook.com')) {
+    return found('Microsoft Safe Links', param(url, 'url'));
+  }
+  if (/^(www\.)?google\.[a-z.]+$/.test(host) && url.pathname === '/url') {
+    return found('Google redirect', param(url, 'q', 'url'));
+  }
+  if (host === 'urldefense.proofpoint.com' || host === 'urldefense.com') {
+    if (url.pathname.startsWith('/v2/')) {
+      const encoded = param(url, 'u');
+      return found('Proofpoint URL Defense', encoded && decodeUrlDefenseV2(encoded));
+    }
+    const v3 = /\/v3\/__(.+?)__;/.exec(raw);
+    if (v3) return found('Proofpoint URL Defense', v3[1]);
+  }
+  if (/^(l|lm)\.facebook\.com$/.test(host) && url.pathname === '/l.php') {
+    return found('Facebook link shim', param(url, 'u'));
+  }
+  if (/(^|\.)youtube\.com$/.test(host) && url.pathname === '/redirect') {
+    return found('YouTube redirect', param(url, 'q'));
+  }
+  if (/(^|\.)linkedin\.com$/.test(host) && url.pathname.startsWith('/redir/')) {
+    return found('LinkedIn redirect', param(url, 'url'));
+  }
+  if (host === 'slack-redir.net') {
+    return found('Slack redirect', param(url, 'url'));
+  }
+  if (TRACKER_HOSTS.some(pattern => pattern.test(host))) {
+    return found('Tracking redirect', param(url, ...TRACKING_PARAMS));
+  }
+  return null;
+};
+
+export const findMetaRefresh = (html: string): string | null => {
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    if (!/http-equiv\s*=\s*["']?refresh/i.test(tag)) continue;
+    const content = /content\s*=\s*(["'])(.*?)\1/i.exec(tag)?.[2];
+    const target = content && /url\s*=\s*['"]?([^'"]+)/i.exec(content)?.[1];
+    if (target) return target.trim();
+  }
+  return null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks a proxy answer against the contract below; headers and body may be left out.
+const toHopResponse = (data: unknown): HopResponse => {
+  const invalid = (what: string) => new Error(`The redirect proxy answer has ${what}.`);
+  if (!isRecord(data)) throw invalid('no JSON object');
+  if (typeof data.status !== 'number') throw invalid('no numeric status');
+  const rawHeaders = data.headers ?? {};
+  if (!isRecord(rawHeaders)) throw invalid('headers that are not an object');
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(rawHeaders)) {
+    if (typeof value !== 'string') throw invalid(`a non-string ${key} header`);
+    headers[key.toLowerCase()] = value;
+  }
+  const body = data.body ?? '';
+  if (typeof body !== 'string') throw invalid('a body that is not a string');
+  return { status: data.status, headers, body };
+};
+
+// The proxy fetches `url` without following redirects and answers with JSON:
+// { "status": 302, "headers": { "location": "..." }, "body": "..." }.
+export const createProxyFetcher = (
+  proxyUrl: string,
+  fetchImpl: typeof fetch = fetch.bind(globalThis),
+  timeoutMs = HOP_TIMEOUT_MS
+): HopFetcher =>
+  async (url: string) => {
+    let data: unknown;
+    try {
+      const signal = AbortSignal.timeout(timeoutMs);
+      const response = await fetchImpl(`${proxyUrl}${proxyUrl.includes('?') ? '&' : '?'}url=${encodeURIComponent(url)}`, { signal });
+      if (!response.ok) throw new Error(`The redirect proxy returned HTTP ${response.status}.`);
+      data = await response.json();
+    } catch (err) {
+      if ((err as { name?: string })?.name === 'TimeoutError') {
+        throw new Error(`The redirect proxy did not answer within ${timeoutMs / 1000}s.`);
+      }
+      throw err;
+    }
+    return toHopResponse(data);
+  };
+
+const nextHop = async (current: string, fetchHop?: HopFetcher): Promise<RawHop | null> => {
+  const unwrapped = unwrapUrl(current);
+  if (unwrapped) return { url: unwrapped.url, via: 'wrapper', detail: unwrapped.wrapper };
+  if (!fetchHop) return null;
+
+  const response = await fetchHop(current);
+  const location = response.headers.location;
+  if (response.status >= 300 && response.status < 400 && location) {
+    return { url: new URL(location, current).href, via: 'http', detail: `HTTP ${response.status}` };
+  }
+  const refresh = response.status >= 200 && response.status < 300 ? findMetaRefresh(response.body) : null;
+  return refresh ? { url: new URL(refresh, current).href, via: 'meta-refresh' } : null;
+};
+
+export const resolveRedirects = async (start: string, maxHops: number, fetchHop?: HopFetcher): Promise<RawHop[]> => {
+  const hops: RawHop[] = [{ url: start, via: 'scan' }];
+  const seen = new Set([start]);
+  while (hops.length <= maxHops) {
+    let next: RawHop | null;
+    try {
+      next = await nextHop(hops[hops.length - 1].url, fetchHop);
+    } catch (err) {
+      console.warn('Redirect resolution stopped.', err);
+      break;
+    }
+    // Loops end the chain; the repeated URL is already listed.
+    if (!next || !asHttpUrl(next.url) || seen.has(next.url)) break;
+    seen.add(next.url);
+    hops.push(next);
+  }
+  return hops;
+};
+
+// Every hop is scored on its own; findings from later hops are folded into the verdict
+// for the scanned payload, along with a note when the destination changes domain.
+export const resolveRedirectChain = async (
+  content: string,
+  config: AnalyzerSettings['redirects'],
+  fetchHop?: HopFetcher
+): Promise<{ chain: RedirectHop[]; indicators: RiskIndicator[] }> => {
+  const start = parseUrl(content);
+  if (!start || !/^https?:$/.test(start.protocol)) return { chain: [], indicators: [] };
+
+  const fetcher = fetchHop || (config.follow && config.proxyUrl ? createProxyFetcher(config.proxyUrl) : undefined);
+  const hops = await resolveRedirects(start.href, config.maxHops, fetcher);
+  if (hops.length < 2) return { chain: [], indicators: [] };
+
+  // Hop 0 is the scanned payload, already scored by the caller; its findings only seed
+  // the dedupe so a later hop repeating them is not counted twice.
+  const seen = new Set<string>();
+  const indicators: RiskIndicator[] = [];
+  const chain = hops.map((hop, n) => {
+    const result = analyzeLocally(hop.url);
+    for (const ind of result.indicators) {
+      const key = `${ind.id}|${ind.match}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      if (n > 0) indicators.push({ ...ind, description: `Hop ${n}: ${ind.description}` });
+    }
+    return { ...hop, riskScore: result.riskScore, riskLevel: result.riskLevel };
+  });
+
+  const final = new URL(hops[hops.length - 1].url);
+  const startDomain = getRegistrableDomain(start.hostname);
+  const finalDomain = getRegistrableDomain(final.hostname);
+  if (finalDomain !== startDomain) {
+    indicators.push({
+      id: 'hidden-destination',
+      category: 'redirect',
+      severity: getSeverity(15),
+      weight: 15,
+      match: start.hostname,
+      description: `The link hides its destination: it leads to ${finalDomain} through ${hops.length - 1} hop${hops.length > 2 ? 's' : ''}.`,
+    });
+  }
+  return { chain, indicators };
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnalyzerError, normalizeProbabilities, parseAnalysisResponse, validateAnalysis, withRetry } from './responseValidator';
+import { RiskLevel } from '../types';
+
+const PAYLOAD = 'https://example.com/login';
+
+// Model responses as providers have actually returned them.
+const FIXTURES = {
+  clean: JSON.stringify({
+    riskScore: 72,
+    riskLevel: 'HIGH',
+    explanation: 'Credential page on a lookalike host.',
+    recommendations: ['Do not enter your password.', ''],
+    probabilities: { malicious: 60, fake: 30, authentic: 10 },
+    indicators: [{ id: 'typosquat', category: 'brand', severity: 'critical', weight: 50, match: 'examp1e.com', description: 'Near-miss spelling.' }],
+  }),
+  fenced: '```json\n{"riskScore": 10, "explanation": "Looks fine.", "probabilities": {"malicious": 1, "fake": 1, "authentic": 98}}\n```',
+  truncated: '{"riskScore": 55, "explanation": "The page asks for',
+  wrongTypes: JSON.stringify({
+    riskScore: '140',
+    explanation: 42,
+    recommendations: 'open it',
+    probabilities: { malicious: '3', fake: null, authentic: -5 },
+    indicators: [{ id: 'x', description: 'kept', weight: '250', category: 'nonsense', severity: 'extreme' }, { id: 7 }, 'junk'],
+  }),
+  noScore: JSON.stringify({ explanation: 'No verdict.', indicators: [] }),
+};
+
+describe('validateAnalysis', () => {
+  it('accepts a well-formed response and drops blank recommendations', () => {
+    const result = validateAnalysis(JSON.parse(FIXTURES.clean), PAYLOAD);
+    expect(result.riskScore).toBe(72);
+    expect(result.riskLevel).toBe(RiskLevel.HIGH);
+    expect(result.recommendations).toEqual(['Do not enter your password.']);
+    expect(result.indicators).toHaveLength(1);
+    expect(result.originalContent).toBe(PAYLOAD);
+  });
+
+  it('repairs wrong-typed fields instead of trusting them', () => {
+    const result = validateAnalysis(JSON.parse(FIXTURES.wrongTypes), PAYLOAD);
+    expect(result.riskScore).toBe(100);
+    expect(result.explanation).toBe('');
+    expect(result.recommendations).toEqual([]);
+    expect(result.indicators).toEqual([
+      { id: 'x', category: 'payload', severity: 'critical', weight: 100, match: '', description: 'kept' },
+    ]);
+  });
+
+  it('rebuilds a missing score from the indicators', () => {
+    const result = validateAnalysis({ indicators: [{ id: 'a', description: 'a', weight: 20 }, { id: 'b', description: 'b', weight: 15 }] }, PAYLOAD);
+    expect(result.riskScore).toBe(35);
+  });
+
+  it('rejects responses with no verdict', () => {
+    expect(() => validateAnalysis(JSON.parse(FIXTURES.noScore), PAYLOAD)).toThrow(AnalyzerError);
+    expect(() => validateAnalysis([1, 2], PAYLOAD)).toThrow('not a JSON object');
+  });
+});
+
+describe('normalizeProbabilities', () => {
+  it('scales to 100 with largest remainders', () => {
+    expect(normalizeProbabilities({ malicious: 1, fake: 1, authentic: 1 }, 0)).toEqual({ malicious: 34, fake: 33, authentic: 33 });
+    expect(normalizeProbabilities({ malicious: 30, fake: 30, authentic: 60 }, 0)).toEqual({ malicious: 25, fake: 25, authentic: 50 });
+  });
+
+  it('ignores negative and non-numeric parts', () => {
+    expect(normalizeProbabilities({ malicious: '3', fake: null, authentic: -5 }, 0)).toEqual({ malicious: 100, fake: 0, authentic: 0 });
+  });
+
+  it('falls back to the risk score when nothing is usable', () => {
+    expect(normalizeProbabilities(undefined, 40)).toEqual({ malicious: 40, fake: 0, authentic: 60 });
+  });
+});
+
+describe('parseAnalysisResponse', () => {
+  it('unwraps markdown-fenced JSON', () => {
+    const result = parseAnalysisResponse(FIXTURES.fenced, PAYLOAD);
+    expect(result.riskScore).toBe(10);
+    expect(result.probabilities).toEqual({ malicious: 1, fake: 1, authentic: 98 });
+  });
+
+  it('reports truncated JSON as malformed', () => {
+    expect(() => parseAnalysisResponse(FIXTURES.truncated, PAYLOAD)).toThrow(
+      expect.objectContaining({ kind: 'malformed', message: 'The model response is not valid JSON.' })
+    );
+  });
+
+  it('validates wrong-typed JSON after parsing', () => {
+    expect(parseAnalysisResponse(FIXTURES.wrongTypes, PAYLOAD).riskScore).toBe(100);
+  });
+});
+
+describe('withRetry', () => {
+  const noSleep = () => Promise.resolve();
+
+  it('retries transient failures with doubling delays', async () => {
+    const sleep = vi.fn((_ms: number) => Promise.resolve());
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new AnalyzerError('rate-limit', 'slow down', 429))
+      .mockRejectedValueOnce(new AnalyzerError('server', 'down', 503))
+      .mockResolvedValue('ok');
+    await expect(withRetry(fn, { baseDelayMs: 100, sleep })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    const [first, second] = sleep.mock.calls.map(([ms]) => ms);
+    expect(first).toBeGreaterThanOrEqual(100);
+    expect(first).toBeLessThanOrEqual(120);
+    expect(second).toBeGreaterThanOrEqual(200);
+    expect(second).toBeLessThanOrEqual(240);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const fn = vi.fn().mockRejectedValue(new AnalyzerError('http', 'bad key', 401));
+    await expect(withRetry(fn, { sleep: noSleep })).rejects.toThrow('bad key');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const fn = vi.fn().mockRejectedValue(new AnalyzerError('network', 'offline'));
+    await expect(withRetry(fn, { attempts: 2, sleep: noSleep })).rejects.toThrow('offline');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
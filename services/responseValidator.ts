@@ -0,0 +1,134 @@
+import { AnalysisResult, IndicatorCategory, IndicatorSeverity, ProbabilityMap, RiskIndicator } from '../types';
+import { getRiskLevel, getSeverity } from './heuristicsService';
+
+// Model output is untrusted input. Everything a provider returns goes through
+// validateAnalysis, which repairs what it can and rejects what it cannot.
+
+export type AnalyzerErrorKind = 'network' | 'rate-limit' | 'server' | 'http' | 'malformed';
+
+export class AnalyzerError extends Error {
+  constructor(
+    readonly kind: AnalyzerErrorKind,
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'AnalyzerError';
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'rate-limit' || this.kind === 'server';
+  }
+}
+
+export const errorFromStatus = (status: number, provider: string): AnalyzerError => {
+  if (status === 429) return new AnalyzerError('rate-limit', `${provider} is rate limiting requests (HTTP 429).`, status);
+  if (status >= 500) return new AnalyzerError('server', `${provider} is temporarily unavailable (HTTP ${status}).`, status);
+  return new AnalyzerError('http', `${provider} rejected the request (HTTP ${status}).`, status);
+};
+
+const CATEGORIES: IndicatorCategory[] = ['domain', 'scheme', 'encoding', 'brand', 'redirect', 'payload', 'physical'];
+const SEVERITIES: IndicatorSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+const toNumber = (value: unknown): number | null => {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toIndicator = (value: unknown): RiskIndicator | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.description !== 'string') return null;
+  const weight = clamp(Math.round(toNumber(value.weight) ?? 0), 0, 100);
+  return {
+    id: value.id,
+    category: CATEGORIES.includes(value.category as IndicatorCategory) ? value.category as IndicatorCategory : 'payload',
+    severity: SEVERITIES.includes(value.severity as IndicatorSeverity) ? value.severity as IndicatorSeverity : getSeverity(weight),
+    weight,
+    match: typeof value.match === 'string' ? value.match : '',
+    description: value.description,
+  };
+};
+
+// Scales to a total of 100 using largest remainders so the rounded parts still add up.
+export const normalizeProbabilities = (value: unknown, riskScore: number): ProbabilityMap => {
+  const keys: Array<keyof ProbabilityMap> = ['malicious', 'fake', 'authentic'];
+  const raw = keys.map(k => Math.max(0, (isRecord(value) && toNumber(value[k])) || 0));
+  const total = raw.reduce((a, b) => a + b, 0);
+  if (total === 0) {
+    return { malicious: riskScore, fake: 0, authentic: 100 - riskScore };
+  }
+  const scaled = raw.map(v => (v / total) * 100);
+  const floors = scaled.map(Math.floor);
+  let remainder = 100 - floors.reduce((a, b) => a + b, 0);
+  scaled
+    .map((v, i) => ({ i, frac: v - floors[i] }))
+    .sort((a, b) => b.frac - a.frac)
+    .forEach(({ i }) => { if (remainder-- > 0) floors[i]++; });
+  return { malicious: floors[0], fake: floors[1], authentic: floors[2] };
+};
+
+export const validateAnalysis = (data: unknown, content: string): AnalysisResult => {
+  if (!isRecord(data)) {
+    throw new AnalyzerError('malformed', 'The model response is not a JSON object.');
+  }
+  const indicators = Array.isArray(data.indicators)
+    ? data.indicators.map(toIndicator).filter((ind): ind is RiskIndicator => ind !== null)
+    : [];
+
+  // A missing score can be rebuilt from the findings; with neither there is no verdict.
+  let score = toNumber(data.riskScore);
+  if (score === null && indicators.length > 0) score = indicators.reduce((sum, ind) => sum + ind.weight, 0);
+  if (score === null) {
+    throw new AnalyzerError('malformed', 'The model response has no usable riskScore.');
+  }
+  const riskScore = clamp(Math.round(score), 0, 100);
+
+  return {
+    riskScore,
+    riskLevel: getRiskLevel(riskScore),
+    explanation: typeof data.explanation === 'string' ? data.explanation : '',
+    recommendations: Array.isArray(data.recommendations)
+      ? data.recommendations.filter((r): r is string => typeof r === 'string' && r.trim() !== '')
+      : [],
+    originalContent: content,
+    probabilities: normalizeProbabilities(data.probabilities, riskScore),
+    indicators,
+  };
+};
+
+export const parseAnalysisResponse = (text: string, content: string): AnalysisResult => {
+  // Some OpenAI-compatible servers wrap JSON mode output in a markdown fence.
+  const body = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1');
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new AnalyzerError('malformed', 'The model response is not valid JSON.');
+  }
+  return validateAnalysis(data, content);
+};
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Retries only transient failures, doubling the delay each time with a little jitter.
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { attempts = 3, baseDelayMs = 500, sleep = defaultSleep } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (!(err instanceof AnalyzerError) || !err.retryable || attempt >= attempts) throw err;
+      await sleep(baseDelayMs * 2 ** (attempt - 1) * (1 + Math.random() * 0.2));
+    }
+  }
+};
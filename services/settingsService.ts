@@ -0,0 +1,39 @@
+import { AnalyzerSettings } from '../types';
+import { DEFAULT_GEMINI_MODEL } from './geminiService';
+import { DEFAULT_OPENAI_BASE_URL } from './openAiCompatibleService';
+
+const STORAGE_KEY = 'qrshield.analyzer-settings';
+
+export const DEFAULT_SETTINGS: AnalyzerSettings = {
+  mode: 'single',
+  provider: 'gemini',
+  enabled: { gemini: true, local: true, openai: false },
+  weights: { gemini: 1, local: 1, openai: 1 },
+  gemini: { apiKey: '', model: DEFAULT_GEMINI_MODEL, grounding: true },
+  openai: { baseUrl: DEFAULT_OPENAI_BASE_URL, apiKey: '', model: '' },
+  redirects: { follow: false, maxHops: 5, proxyUrl: '' },
+  preview: { proxyUrl: '' },
+};
+
+// Stored settings are merged over the defaults so fields added later get sane values.
+export const loadSettings = (): AnalyzerSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      enabled: { ...DEFAULT_SETTINGS.enabled, ...stored.enabled },
+      weights: { ...DEFAULT_SETTINGS.weights, ...stored.weights },
+      gemini: { ...DEFAULT_SETTINGS.gemini, ...stored.gemini },
+      openai: { ...DEFAULT_SETTINGS.openai, ...stored.openai },
+      redirects: { ...DEFAULT_SETTINGS.redirects, ...stored.redirects },
+      preview: { ...DEFAULT_SETTINGS.preview, ...stored.preview },
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AnalyzerSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
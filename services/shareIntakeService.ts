@@ -0,0 +1,47 @@
+import { extractUrls } from './payloadParser';
+
+// Inputs that arrive from outside the app: the OS share sheet (via the service worker's
+// share target) and the clipboard. Both reduce to images to decode and/or text to analyze.
+
+export interface SharedItems {
+  files: File[];
+  text: string;
+}
+
+// Must match SHARE_INBOX in sw.js, which writes what the share sheet POSTs here.
+const SHARE_INBOX = 'qrshield-share-inbox';
+const SHARE_TEXT_PATH = '/share-target/text';
+
+export const SHARE_TARGET_PARAM = 'share-target';
+
+// Reads and clears whatever the service worker stashed from the last share.
+export const takeSharedItems = async (): Promise<SharedItems | null> => {
+  if (!('caches' in window) || !(await caches.has(SHARE_INBOX))) return null;
+  const cache = await caches.open(SHARE_INBOX);
+  const items: SharedItems = { files: [], text: '' };
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    if (!response) continue;
+    if (new URL(request.url).pathname === SHARE_TEXT_PATH) {
+      const { title = '', text = '', url = '' } = await response.json();
+      // Share sheets put the link in any of the three fields; the URL field wins.
+      items.text = [url, text, title].filter(Boolean).join(' ');
+    } else {
+      const name = decodeURIComponent(response.headers.get('X-File-Name') || 'shared-image');
+      items.files.push(new File([await response.blob()], name, { type: response.headers.get('Content-Type') || '' }));
+    }
+  }
+  await caches.delete(SHARE_INBOX);
+  return items.files.length || items.text ? items : null;
+};
+
+export const clipboardItems = (data: DataTransfer | null): SharedItems | null => {
+  if (!data) return null;
+  const files = Array.from(data.files).filter(file => file.type.startsWith('image/'));
+  const text = data.getData('text/plain').trim();
+  return files.length || text ? { files, text } : null;
+};
+
+// The first URL in shared text, or the text itself when it holds none: a shared message
+// usually wraps the link in prose, but a bare payload should still be analyzed as-is.
+export const payloadFromText = (text: string): string => extractUrls(text)[0] || text.trim();
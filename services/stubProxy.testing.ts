@@ -0,0 +1,39 @@
+import { AddressInfo } from 'node:net';
+import { createServer } from 'node:http';
+import { HopResponse } from './redirectService';
+
+// Test-only stand-in for the fetch proxy: answers `?url=` requests with the same JSON
+// contract, from a handler keyed on the target URL. 'hang' never answers.
+
+export type StubRoute = (target: string) => Partial<HopResponse> | 'hang';
+
+export interface StubProxy {
+  url: string;
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+export const startStubProxy = (route: StubRoute): Promise<StubProxy> => {
+  const requests: string[] = [];
+  const server = createServer((req, res) => {
+    const target = new URL(req.url || '/', 'http://stub').searchParams.get('url') || '';
+    requests.push(target);
+    const answer = route(target);
+    if (answer === 'hang') return;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ status: answer.status ?? 200, headers: answer.headers || {}, body: answer.body || '' }));
+  });
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/fetch`,
+        requests,
+        close: () => {
+          server.closeAllConnections();
+          return new Promise(done => server.close(() => done()));
+        },
+      });
+    });
+  });
+};
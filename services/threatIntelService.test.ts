@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { IntelFeed } from '../types';
+import { IntelHit, intelFindings, lookupKeys, recordKeys } from './threatIntelService';
+
+const FEED: IntelFeed = {
+  id: 'feed-1', name: 'URLhaus', format: 'urlhaus-csv', fileName: 'urlhaus.csv', importedAt: Date.UTC(2024, 4, 1), publishedAt: null, entryCount: 1,
+};
+
+// What an index read would find: the first payload key that some record of the entry carries.
+const firstMatch = (listed: string, kind: 'url' | 'host', payload: string) => {
+  const stored = new Set(recordKeys({ kind, value: listed }));
+  return lookupKeys(payload).find(k => stored.has(k.key))?.matchedBy ?? null;
+};
+
+describe('threat-intel keys', () => {
+  it('matches a listed URL exactly and on its host', () => {
+    expect(firstMatch('http://evil.example/x', 'url', 'http://evil.example/x')).toBe('url');
+    expect(firstMatch('http://evil.example/x', 'url', 'https://evil.example/other')).toBe('urlhost');
+  });
+
+  it('matches a listed URL from another host under the same registrable domain', () => {
+    expect(firstMatch('http://evil.example/x', 'url', 'https://login.evil.example/')).toBe('urldomain');
+    expect(firstMatch('http://cdn.evil.example/x', 'url', 'https://login.evil.example/')).toBe('urldomain');
+    expect(firstMatch('http://evil.co.uk/x', 'url', 'https://login.evil.co.uk/')).toBe('urldomain');
+  });
+
+  it('walks listed domains down to the registrable domain', () => {
+    expect(firstMatch('evil.example', 'host', 'https://a.b.evil.example/')).toBe('domain');
+    expect(firstMatch('example', 'host', 'https://evil.example/')).toBeNull();
+  });
+
+  it('does not widen a listed page on a large platform to the whole platform', () => {
+    expect(firstMatch('https://www.dropbox.com/s/abc/invoice.html', 'url', 'https://www.dropbox.com/home')).toBe('urlhost');
+    expect(firstMatch('https://www.dropbox.com/s/abc/invoice.html', 'url', 'https://dropbox.com/')).toBeNull();
+  });
+});
+
+describe('intelFindings', () => {
+  it('scores the most specific hit and cites every feed', () => {
+    const hit = (matchedBy: IntelHit['matchedBy'], name: string): IntelHit => ({
+      feed: { ...FEED, id: name, name },
+      record: { feedId: name, key: '', value: 'http://evil.example/x', threat: 'phishing' },
+      matchedBy,
+    });
+    const { indicators, sources } = intelFindings([hit('urldomain', 'OpenPhish'), hit('url', 'URLhaus')]);
+    expect(indicators.map(ind => [ind.id, ind.weight])).toEqual([['threat-intel-match', 70]]);
+    expect(sources.map(s => s.title)).toEqual([
+      'OpenPhish · 2024-05-01 · matched other URLs on its registrable domain · phishing',
+      'URLhaus · 2024-05-01 · matched this exact URL · phishing',
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import { GroundingSource, IntelFeed, RiskIndicator } from '../types';
+import { KNOWN_BRANDS, getRegistrableDomain, getSeverity, parseUrl } from './heuristicsService';
+import { IntelEntry, parseFeed } from './intelFeedParser';
+
+// Offline threat-intel store. Imported feeds are flattened into records keyed by a
+// normalised lookup key, so matching a payload is a handful of index reads:
+//   url:<normalised url>   exact listed URL
+//   host:<hostname>        listed domain or IP (STIX domain-name, ipv4-addr...)
+//   urlhost:<hostname>     some other URL on this host is listed
+//   urldomain:<domain>     some URL under this registrable domain is listed
+//   hash:<hex digest>      listed file hash
+
+const DB_NAME = 'qrshield-intel';
+const DB_VERSION = 1;
+const FEEDS = 'feeds';
+const RECORDS = 'records';
+
+interface IntelRecord {
+  feedId: string;
+  key: string;
+  value: string;
+  threat?: string;
+  firstSeen?: string;
+  reference?: string;
+}
+
+export interface IntelHit {
+  feed: IntelFeed;
+  record: IntelRecord;
+  matchedBy: 'url' | 'host' | 'domain' | 'urlhost' | 'urldomain' | 'hash';
+}
+
+const MATCH_WEIGHTS: Record<IntelHit['matchedBy'], number> = {
+  url: 70,
+  host: 60,
+  domain: 50,
+  hash: 60,
+  urlhost: 30,
+  urldomain: 25,
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(FEEDS, { keyPath: 'id' });
+        const records = request.result.createObjectStore(RECORDS, { autoIncrement: true });
+        records.createIndex('key', 'key');
+        records.createIndex('feedId', 'feedId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error('Threat-intel storage is unavailable.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const awaitRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const awaitTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('The import was aborted.'));
+  });
+
+export const normalizeIntelUrl = (value: string): string | null => {
+  const url = parseUrl(value);
+  if (!url || !url.hostname) return null;
+  url.hash = '';
+  return url.href;
+};
+
+export const recordKeys = (entry: IntelEntry): string[] => {
+  if (entry.kind === 'hash') return [`hash:${entry.value.trim().toLowerCase()}`];
+  if (entry.kind === 'host') return [`host:${entry.value.trim().toLowerCase().replace(/\.$/, '')}`];
+  const url = normalizeIntelUrl(entry.value);
+  if (!url) return [];
+  const host = new URL(url).hostname;
+  return [`url:${url}`, `urlhost:${host}`, `urldomain:${getRegistrableDomain(host)}`];
+};
+
+export const listFeeds = async (): Promise<IntelFeed[]> => {
+  const db = await openDb();
+  const feeds = await awaitRequest<IntelFeed[]>(db.transaction(FEEDS).objectStore(FEEDS).getAll());
+  return feeds.sort((a, b) => b.importedAt - a.importedAt);
+};
+
+export const importFeed = async (fileName: string, text: string): Promise<IntelFeed> => {
+  const parsed = parseFeed(fileName, text);
+  if (parsed.entries.length === 0) throw new Error(`No usable entries were found in ${fileName}.`);
+
+  const feed: IntelFeed = {
+    id: crypto.randomUUID(),
+    name: parsed.name,
+    format: parsed.format,
+    fileName,
+    importedAt: Date.now(),
+    publishedAt: parsed.publishedAt,
+    entryCount: parsed.entries.length,
+  };
+  const db = await openDb();
+  const tx = db.transaction([FEEDS, RECORDS], 'readwrite');
+  const records = tx.objectStore(RECORDS);
+  for (const entry of parsed.entries) {
+    for (const key of recordKeys(entry)) {
+      const record: IntelRecord = { feedId: feed.id, key, value: entry.value, threat: entry.threat, firstSeen: entry.firstSeen, reference: entry.reference };
+      records.add(record);
+    }
+  }
+  tx.objectStore(FEEDS).put(feed);
+  await awaitTransaction(tx);
+  return feed;
+};
+
+export const deleteFeed = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([FEEDS, RECORDS], 'readwrite');
+  tx.objectStore(FEEDS).delete(id);
+  const cursorRequest = tx.objectStore(RECORDS).index('feedId').openKeyCursor(IDBKeyRange.only(id));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    tx.objectStore(RECORDS).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await awaitTransaction(tx);
+};
+
+// Lookup keys for a payload, most specific first. Parent domains are walked down to the
+// registrable domain so a listed "evil.example" also covers "login.evil.example", and a
+// listed URL anywhere under that registrable domain counts too. Parent urlhost: keys keep
+// that working for feeds imported before urldomain: records existed. Feeds list abused
+// pages on large platforms (a shared file on dropbox.com), so those domains are not widened.
+export const lookupKeys = (content: string): Array<{ key: string; matchedBy: IntelHit['matchedBy'] }> => {
+  const trimmed = content.trim();
+  if (/^([a-f0-9]{32}|[a-f0-9]{40}|[a-f0-9]{64})$/i.test(trimmed)) {
+    return [{ key: `hash:${trimmed.toLowerCase()}`, matchedBy: 'hash' }];
+  }
+  const url = normalizeIntelUrl(trimmed);
+  if (!url) return [];
+  const host = new URL(url).hostname;
+  const registrable = getRegistrableDomain(host);
+  const keys: Array<{ key: string; matchedBy: IntelHit['matchedBy'] }> = [
+    { key: `url:${url}`, matchedBy: 'url' },
+    { key: `host:${host}`, matchedBy: 'host' },
+  ];
+  const labels = host.split('.');
+  const parents: string[] = [];
+  for (let i = 1; i < labels.length; i++) {
+    const parent = labels.slice(i).join('.');
+    if (parent.length < registrable.length) break;
+    parents.push(parent);
+  }
+  keys.push(...parents.map(parent => ({ key: `host:${parent}`, matchedBy: 'domain' as const })));
+  keys.push({ key: `urlhost:${host}`, matchedBy: 'urlhost' });
+  if (Object.values(KNOWN_BRANDS).flat().includes(registrable)) return keys;
+  keys.push(...parents.map(parent => ({ key: `urlhost:${parent}`, matchedBy: 'urldomain' as const })));
+  keys.push({ key: `urldomain:${registrable}`, matchedBy: 'urldomain' });
+  return keys;
+};
+
+export const lookupThreatIntel = async (content: string): Promise<IntelHit[]> => {
+  const keys = lookupKeys(content);
+  if (keys.length === 0) return [];
+  const db = await openDb();
+  const tx = db.transaction([FEEDS, RECORDS]);
+  const index = tx.objectStore(RECORDS).index('key');
+  const feeds = new Map((await awaitRequest<IntelFeed[]>(tx.objectStore(FEEDS).getAll())).map(f => [f.id, f] as [string, IntelFeed]));
+  if (feeds.size === 0) return [];
+
+  const hits: IntelHit[] = [];
+  const seenFeeds = new Set<string>();
+  for (const { key, matchedBy } of keys) {
+    const records = await awaitRequest<IntelRecord[]>(index.getAll(key));
+    for (const record of records) {
+      const feed = feeds.get(record.feedId);
+      // One citation per feed, from its most specific match.
+      if (!feed || seenFeeds.has(feed.id)) continue;
+      seenFeeds.add(feed.id);
+      hits.push({ feed, record, matchedBy });
+    }
+  }
+  return hits;
+};
+
+const MATCH_LABELS: Record<IntelHit['matchedBy'], string> = {
+  url: 'this exact URL',
+  host: 'this host',
+  domain: 'its parent domain',
+  urlhost: 'other URLs on this host',
+  urldomain: 'other URLs on its registrable domain',
+  hash: 'this hash',
+};
+
+const feedDate = (feed: IntelFeed) => (feed.publishedAt || new Date(feed.importedAt).toISOString()).slice(0, 10);
+
+// Hits become indicators for the score and citations for the Sources panel.
+export const intelFindings = (hits: IntelHit[]): { indicators: RiskIndicator[]; sources: GroundingSource[] } => {
+  const strongest = hits.reduce<IntelHit | null>((best, h) => (!best || MATCH_WEIGHTS[h.matchedBy] > MATCH_WEIGHTS[best.matchedBy] ? h : best), null);
+  const indicators: RiskIndicator[] = strongest ? [{
+    id: 'threat-intel-match',
+    category: 'intel',
+    severity: getSeverity(MATCH_WEIGHTS[strongest.matchedBy]),
+    weight: MATCH_WEIGHTS[strongest.matchedBy],
+    match: strongest.record.value,
+    description: `${hits.map(h => h.feed.name).join(', ')} list${hits.length === 1 ? 's' : ''} ${MATCH_LABELS[strongest.matchedBy]}${strongest.record.threat ? ` (${strongest.record.threat})` : ''}.`,
+  }] : [];
+
+  const sources = hits.map(h => ({
+    title: `${h.feed.name} · ${feedDate(h.feed)} · matched ${MATCH_LABELS[h.matchedBy]}${h.record.threat ? ` · ${h.record.threat}` : ''}`,
+    uri: h.record.reference || h.record.value,
+  }));
+  return { indicators, sources };
+};
@@ -0,0 +1,59 @@
+// Service worker template. The build replaces the two placeholders with the list of every
+// emitted asset and a hash of that list (see precachePlugin in vite.config.ts), so each
+// release installs as a new cache and the previous one is dropped on activation.
+
+const PRECACHE = __PRECACHE_MANIFEST__;
+const CACHE_NAME = `qrshield-__CACHE_VERSION__`;
+// Holds the last share until the app picks it up; see services/shareIntakeService.ts.
+const SHARE_INBOX = 'qrshield-share-inbox';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('qrshield-') && key !== CACHE_NAME && key !== SHARE_INBOX).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The manifest's share_target POSTs here. The files and text are parked in a cache and the
+// app is opened with ?share-target=1 to collect them.
+const receiveShare = async request => {
+  const form = await request.formData();
+  await caches.delete(SHARE_INBOX);
+  const inbox = await caches.open(SHARE_INBOX);
+  const files = form.getAll('images').filter(value => typeof value !== 'string');
+  await Promise.all(files.map((file, i) => inbox.put(`/share-target/file/${i}`, new Response(file, {
+    headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name) },
+  }))));
+  const field = name => (typeof form.get(name) === 'string' ? form.get(name) : '');
+  await inbox.put('/share-target/text', new Response(JSON.stringify({ title: field('title'), text: field('text'), url: field('url') })));
+  return Response.redirect('/?share-target=1', 303);
+};
+
+// Only the app's own files are served from the cache. Analyzer APIs and fetch proxies are
+// cross-origin and always go to the network, so they fail cleanly when offline.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method === 'POST' && url.origin === self.location.origin && url.pathname === '/share-target') {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('/index.html', { cacheName: CACHE_NAME })));
+    return;
+  }
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME }).then(cached => cached || fetch(request))
+  );
+});
@@ -26,18 +26,269 @@ export interface AnalysisResult {
   originalContent: string;
   groundingSources?: GroundingSource[];
   probabilities: ProbabilityMap;
+  indicators: RiskIndicator[];
+  // Per-provider verdicts when the result was produced by more than one analyzer.
+  providers?: ProviderVerdict[];
+  // Hops from the scanned URL to its final destination, starting with the payload itself.
+  redirectChain?: RedirectHop[];
+  // Organisation policy rules that matched this payload.
+  policyMatches?: PolicyMatch[];
+  // Sanitised summary of the destination page, fetched on request through the preview proxy.
+  preview?: PagePreview;
+  // How the scanned symbol itself was put together, when it was decoded from an image.
+  qrStructure?: QrStructure;
+}
+
+export type IntelFeedFormat = 'urlhaus-csv' | 'phishtank-json' | 'openphish-txt' | 'stix-bundle';
+
+export interface IntelFeed {
+  id: string;
+  name: string;
+  format: IntelFeedFormat;
+  fileName: string;
+  importedAt: number;
+  // When the feed itself was generated, if the dump says so.
+  publishedAt: string | null;
+  entryCount: number;
+}
+
+export interface ProtectedBrand {
+  name: string;
+  domains: string[];
+}
+
+export interface OrgPolicy {
+  trustedDomains: string[];
+  blockedDomains: string[];
+  // Matched against the whole payload; '*' is a wildcard.
+  blockedPatterns: string[];
+  brands: ProtectedBrand[];
+}
+
+export type PolicyMatchKind = 'trusted' | 'blocked-domain' | 'blocked-pattern' | 'protected-brand';
+
+export interface PolicyMatch {
+  kind: PolicyMatchKind;
+  rule: string;
+  value: string;
+}
+
+export type RedirectVia = 'scan' | 'wrapper' | 'http' | 'meta-refresh';
+
+export interface RedirectHop {
+  url: string;
+  via: RedirectVia;
+  // Wrapper name for unwrapped links, HTTP status for followed redirects.
+  detail?: string;
+  riskScore: number;
+  riskLevel: RiskLevel;
+}
+
+export interface PreviewForm {
+  action: string;
+  method: string;
+  // Input types and names, e.g. "password:pass".
+  fields: string[];
+  hasPassword: boolean;
+  // Submits to a different registrable domain than the page itself.
+  offsite: boolean;
+}
+
+export interface PagePreview {
+  requestedUrl: string;
+  finalUrl: string;
+  status: number;
+  fetchedAt: number;
+  title: string;
+  // Visible text only, whitespace-collapsed and truncated.
+  textExcerpt: string;
+  forms: PreviewForm[];
+  passwordFields: number;
+  externalScriptHosts: string[];
+  // Brands whose name appears in the page's images, icons or title while it is not on their domains.
+  brandMatches: string[];
+  // Set when the destination is not an HTML page, which is then not parsed at all.
+  contentType?: string;
+}
+
+export type AnalyzerId = 'gemini' | 'local' | 'openai';
+
+export interface Analyzer {
+  id: AnalyzerId;
+  label: string;
+  // False when the provider is missing configuration it needs, e.g. an API key.
+  isAvailable: () => boolean;
+  analyze: (content: string) => Promise<AnalysisResult>;
+  // Free-text follow-up conversation; providers without one fall back to canned answers.
+  chat?: (systemInstruction: string, messages: ChatMessage[]) => Promise<string>;
+}
+
+export interface ProviderVerdict {
+  provider: AnalyzerId;
+  riskScore: number;
+  riskLevel: RiskLevel;
+  probabilities: ProbabilityMap;
+  error?: string;
+}
+
+export interface AnalyzerSettings {
+  // 'single' runs `provider` alone; 'combined' runs every enabled provider and merges them.
+  mode: 'single' | 'combined';
+  provider: AnalyzerId;
+  enabled: Record<AnalyzerId, boolean>;
+  weights: Record<AnalyzerId, number>;
+  // `grounding` asks Gemini to verify with Google Search and cite what it found.
+  gemini: { apiKey: string; model: string; grounding: boolean };
+  openai: { baseUrl: string; apiKey: string; model: string };
+  // Wrapper links are always unwrapped offline; network hops need a fetch proxy.
+  redirects: { follow: boolean; maxHops: number; proxyUrl: string };
+  // Safe Preview fetches pages through this proxy, using the same contract as the redirect proxy.
+  preview: { proxyUrl: string };
 }
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
+  // Canned answer built from local indicators because no provider could be reached.
+  offline?: boolean;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface EmailContext {
+  from: string;
+  subject: string;
+  date?: string;
+}
+
+// Where inside an uploaded document a code was found.
+export interface CodeOrigin {
+  label: string;
+  email?: EmailContext;
+}
+
+export type QrEcLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrSegment {
+  mode: 'numeric' | 'alphanumeric' | 'byte' | 'kanji' | 'eci';
+  // Characters or bytes in the segment; the assignment number for ECI segments.
+  length: number;
+}
+
+export interface QrStructure {
+  version: number;
+  // Read from the symbol's format bits; absent when only the decoded result was available
+  // (deep-scan recoveries) or the bits could not be read back from the image.
+  ecLevel?: QrEcLevel;
+  mask?: number;
+  segments: QrSegment[];
+  // Control characters and replacement characters in the decoded text.
+  nonPrintable: number;
+  // Byte segments that are not valid UTF-8, or byte data mixed with ECI/Kanji segments.
+  mixedEncoding: boolean;
+  // Bytes the symbol carries that never reach the decoded text: undecodable byte segments
+  // and data written into the padding after the terminator.
+  hiddenBytes: number;
+  codewords?: {
+    total: number;
+    // Codewords the Reed-Solomon decoder had to repair, against the most it could repair.
+    corrected: number;
+    capacity: number;
+  };
+}
+
+export interface DetectedCode {
+  data: string;
+  origin?: CodeOrigin;
+  // Clockwise from the top-left, in source image pixels. Absent when the code was not
+  // located in the original frame (deep-scan recoveries).
+  corners?: [Point, Point, Point, Point];
+  structure?: QrStructure;
+}
+
+export type ScanSource = 'camera' | 'upload' | 'share' | 'paste' | 'manual';
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: number;
+  source: ScanSource;
+  // Downscaled JPEG data URL of the source image, if there was one.
+  thumbnail: string | null;
+  content: string;
+  domain: string | null;
+  analysis: AnalysisResult;
+  // Follow-up conversation about this scan.
+  chat?: ChatMessage[];
+}
+
+export interface CodeResult {
+  code: DetectedCode;
+  analysis: AnalysisResult;
+  // History record this result was saved as, when storage is available.
+  historyId?: string;
+  chat?: ChatMessage[];
+  // Most recent earlier scan of the same payload, if any.
+  previous?: HistoryEntry;
+}
+
+export type BatchStatus = 'extracting' | 'queued' | 'decoding' | 'analyzing' | 'done' | 'no-code' | 'error';
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  origin?: CodeOrigin;
+  status: BatchStatus;
+  base64: string | null;
+  results: CodeResult[];
+  error?: string;
 }
 
 export interface QRState {
-  view: 'home' | 'scan' | 'result';
+  view: 'home' | 'scan' | 'result' | 'history' | 'batch' | 'settings' | 'policy' | 'intel';
+  source: ScanSource | null;
+  scannedAt: number | null;
+  // Batch row the result was opened from; batch results have no scan time of their own.
+  batchItemId: string | null;
   decodedContent: string | null;
   base64Image: string | null;
+  // Name of the deep-scan transformation that recovered the payload, if any.
+  recoveredBy: string | null;
+  // Every code found in the source image; `analysis` mirrors the active one.
+  codes: CodeResult[];
+  activeCode: number;
   analysis: AnalysisResult | null;
   loading: boolean;
   error: string | null;
 }
+
+export type WifiSecurity = 'WPA' | 'WEP' | 'nopass' | 'unknown';
+
+export type ParsedPayload =
+  | { type: 'url'; url: string }
+  | { type: 'wifi'; ssid: string; security: WifiSecurity; password?: string; hidden: boolean }
+  | { type: 'email'; to: string; subject?: string; body?: string }
+  | { type: 'sms'; number: string; message?: string }
+  | { type: 'tel'; number: string }
+  | { type: 'vcard'; name?: string; organization?: string; phones: string[]; emails: string[]; urls: string[] }
+  | { type: 'vevent'; summary?: string; start?: string; end?: string; location?: string; description?: string; urls: string[] }
+  | { type: 'geo'; latitude: number; longitude: number; query?: string }
+  | { type: 'upi'; payeeAddress: string; payeeName?: string; amount?: string; currency?: string; note?: string }
+  | { type: 'emv'; merchantName?: string; merchantCity?: string; countryCode?: string; currency?: string; amount?: string; accounts: string[]; crcValid: boolean }
+  | { type: 'text'; text: string };
+
+export type IndicatorCategory = 'domain' | 'scheme' | 'encoding' | 'brand' | 'redirect' | 'payload' | 'physical' | 'intel';
+
+export type IndicatorSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface RiskIndicator {
+  id: string;
+  category: IndicatorCategory;
+  severity: IndicatorSeverity;
+  weight: number;
+  // Substring of the decoded payload that triggered the indicator, used for highlighting.
+  match: string;
+  description: string;
+}
@@ -1,7 +1,38 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const listFiles = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(full) : [full];
+  });
+
+// Emits sw.js from the template at the project root, precaching every file in the build
+// output so the installed app works with no network at all.
+const precachePlugin = (): Plugin => {
+  let outDir = 'dist';
+  return {
+    name: 'qrshield-precache',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    writeBundle() {
+      const files = listFiles(outDir).filter(file => path.basename(file) !== 'sw.js').sort();
+      const hash = createHash('sha256');
+      for (const file of files) hash.update(file).update(fs.readFileSync(file));
+      const urls = ['/', ...files.map(file => `/${path.relative(outDir, file).split(path.sep).join('/')}`)];
+      const worker = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8')
+        .replace('__PRECACHE_MANIFEST__', JSON.stringify(urls))
+        .replace('__CACHE_VERSION__', hash.digest('hex').slice(0, 12));
+      fs.writeFileSync(path.join(outDir, 'sw.js'), worker);
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +40,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precachePlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)